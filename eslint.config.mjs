@@ -31,4 +31,12 @@ export default [
             semi: ["warn", "never"],
         },
     },
+    {
+        // the core is shared with the CLI, which runs without VS Code
+        files: ["src/core/**/*.ts"],
+
+        rules: {
+            "no-restricted-imports": ["error", "vscode"],
+        },
+    },
 ]
@@ -0,0 +1,389 @@
+import { readFileSync } from 'fs'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import * as path from 'path'
+import {
+    buildSarifLog,
+    closeMaintenanceClient,
+    DEFAULT_LINT_CONFIG,
+    Diagnostic,
+    DiagnosticSeverity,
+    disposeDatabasePool,
+    ErrorMode,
+    expandGlob,
+    isGlob,
+    Isolation,
+    LintConfig,
+    MigrationLayout,
+    MigrationOrder,
+    lintFile,
+    ManagedCluster,
+    Log,
+    NonTransactionalStatements,
+    PlPgsqlCheckWarning,
+    ProfiledLine,
+    resolveProfile,
+    setHost,
+    SslMode,
+    withoutDatabaseUrls,
+} from './core'
+
+const USAGE: string = `Usage: pglint [options] <file | glob>...
+
+Lints PostgreSQL files the same way the pglint VS Code extension does on save.
+Exits with 1 if any error is reported, 2 on usage or connection errors.
+
+Options:
+  --database-url <url>           maintenance database URL (default: $PGLINT_DATABASE_URL or $DATABASE_URL)
+  --ssl-mode <mode>              disable, allow, prefer, require, verify-ca or verify-full, as in libpq (default: $PGSSLMODE; sslmode in the URL wins)
+  --ssl-root-cert <file>         CA certificate(s) to verify the server with (default: $PGSSLROOTCERT, or ~/.postgresql/root.crt for verify-*)
+  --managed-cluster              lint in a throwaway cluster started with the local initdb and pg_ctl instead
+  --postgres-bin-dir <dir>       directory of initdb and pg_ctl for --managed-cluster (default: search PATH)
+  --format <text|json|sarif>     output format (default: text)
+  --error-mode <stop|continue>   stop at the first failing statement, or continue after failures (default: stop)
+  --isolation <tempDatabase|transaction>
+                                 run each file in a temporary database, or in a rolled back transaction (default: tempDatabase)
+  --non-transactional-statements <fallback|report>
+                                 with --isolation transaction, run a file with statements that cannot run in a transaction
+                                 in a temporary database instead, or report them (default: ${DEFAULT_LINT_CONFIG.nonTransactionalStatements})
+  --checkpoints, --no-checkpoints
+                                 keep checkpoint databases after successful statement prefixes on the server, so that
+                                 the next run restores the longest unchanged prefix (default: --no-checkpoints)
+  --migrations-dir <dir>         apply the previous migrations in <dir> before linting a migration in it
+  --migration-order <lexical|timestamp>
+                                 order of the migrations (default: lexical)
+  --migration-layout <auto|plain|dbmate|flyway>
+                                 which part of each migration runs (default: auto)
+  --profiles <file>              JSON file of connection profiles: {"name": {"databaseUrl": "...", ...}, ...}
+  --profile <name>               lint with the settings of a profile from --profiles (-- @profile in a file overrides it)
+  -v, --set <name=value>         set a psql variable, interpolated as :name, :'name' and :"name" (repeatable)
+  --temp-database-prefix <name>  prefix of temporary database names (default: ${DEFAULT_LINT_CONFIG.tempDatabasePrefix})
+  --no-plpgsql-check             don't check functions with plpgsql_check
+  --plpgsql-check-warnings <list>
+                                 comma-separated optional plpgsql_check warnings: extra_warnings, performance_warnings,
+                                 security_warnings, compatibility_warnings, or none (default: ${DEFAULT_LINT_CONFIG.plPgsqlCheckWarnings.join(',')})
+  --profiler                     run the plpgsql_check profiler and add the line coverage and timing of the
+                                 PL/pgSQL routines each file creates to --format json as "profile"
+  --no-query-stats               don't report command, row count and time of each statement
+  --verbose                      log to stderr
+  -h, --help                     show this help
+`
+
+class UsageError extends Error { }
+
+interface CliOptions {
+    patterns: string[]
+    format: 'text' | 'json' | 'sarif'
+    verbose: boolean
+    managedCluster: boolean
+    postgresBinDirectory?: string
+    config: LintConfig
+}
+
+function parseArgs(args: string[]): CliOptions | null {
+    const config: LintConfig = {
+        ...DEFAULT_LINT_CONFIG,
+        databaseUrl: process.env.PGLINT_DATABASE_URL ?? process.env.DATABASE_URL ?? '',
+    }
+    const options: CliOptions = { patterns: [], format: 'text', verbose: false, managedCluster: false, config }
+
+    const value = (i: number): string => {
+        if (i >= args.length) {
+            throw new UsageError(`missing value for ${args[i - 1]}`)
+        }
+        return args[i]
+    }
+    const oneOf = <T extends string>(option: string, given: string, allowed: T[]): T => {
+        if (!allowed.includes(given as T)) {
+            throw new UsageError(`${option} must be one of: ${allowed.join(', ')}`)
+        }
+        return given as T
+    }
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i]
+        switch (arg) {
+            case '-h':
+            case '--help':
+                return null
+            case '--database-url':
+                config.databaseUrl = value(++i)
+                break
+            case '--ssl-mode':
+                config.sslMode = oneOf<SslMode>(arg, value(++i), ['disable', 'allow', 'prefer', 'require', 'verify-ca', 'verify-full'])
+                break
+            case '--ssl-root-cert':
+                config.sslRootCert = path.resolve(value(++i))
+                break
+            case '--managed-cluster':
+                options.managedCluster = true
+                break
+            case '--postgres-bin-dir':
+                options.postgresBinDirectory = value(++i)
+                break
+            case '--format':
+                options.format = oneOf(arg, value(++i), ['text', 'json', 'sarif'])
+                break
+            case '--error-mode':
+                config.errorMode = oneOf<ErrorMode>(arg, value(++i), ['stop', 'continue'])
+                break
+            case '--isolation':
+                config.isolation = oneOf<Isolation>(arg, value(++i), ['tempDatabase', 'transaction'])
+                break
+            case '--non-transactional-statements':
+                config.nonTransactionalStatements = oneOf<NonTransactionalStatements>(arg, value(++i), ['fallback', 'report'])
+                break
+            case '--checkpoints':
+                config.checkpoints = true
+                break
+            case '--no-checkpoints':
+                config.checkpoints = false
+                break
+            case '--migrations-dir':
+                config.migrationsDirectory = path.resolve(value(++i))
+                break
+            case '--migration-order':
+                config.migrationOrder = oneOf<MigrationOrder>(arg, value(++i), ['lexical', 'timestamp'])
+                break
+            case '--migration-layout':
+                config.migrationLayout = oneOf<MigrationLayout>(arg, value(++i), ['auto', 'plain', 'dbmate', 'flyway'])
+                break
+            case '--profiles': {
+                const file = value(++i)
+                let profiles: unknown
+                try {
+                    profiles = JSON.parse(readFileSync(file, 'utf8'))
+                } catch (error: any) {
+                    throw new UsageError(`failed to read ${arg} ${file}: ${error.message}`)
+                }
+                if (typeof profiles !== 'object' || profiles === null || Array.isArray(profiles)) {
+                    throw new UsageError(`${arg} ${file} must contain a JSON object of profiles by name`)
+                }
+                config.profiles = profiles as LintConfig['profiles']
+                break
+            }
+            case '--profile':
+                config.profile = value(++i)
+                break
+            case '-v':
+            case '--set':
+            case '--variable': {
+                const assignment = value(++i)
+                const separator = assignment.indexOf('=')
+                if (separator < 1) {
+                    throw new UsageError(`${arg} must be given as name=value`)
+                }
+                config.variables = { ...config.variables, [assignment.substring(0, separator)]: assignment.substring(separator + 1) }
+                break
+            }
+            case '--temp-database-prefix':
+                config.tempDatabasePrefix = value(++i)
+                break
+            case '--no-plpgsql-check':
+                config.usePlPgsqlCheck = false
+                break
+            case '--plpgsql-check-warnings': {
+                const list = value(++i)
+                config.plPgsqlCheckWarnings = list === 'none' ? [] : list.split(',').map(warnings => oneOf<PlPgsqlCheckWarning>(
+                    arg, warnings.trim(), ['extra_warnings', 'performance_warnings', 'security_warnings', 'compatibility_warnings'],
+                ))
+                break
+            }
+            case '--profiler':
+                config.profiler = true
+                break
+            case '--no-query-stats':
+                config.queryStats = false
+                break
+            case '--verbose':
+                options.verbose = true
+                break
+            default:
+                if (arg.startsWith('-')) {
+                    throw new UsageError(`unknown option: ${arg}`)
+                }
+                options.patterns.push(arg)
+        }
+    }
+
+    if (options.patterns.length === 0) {
+        throw new UsageError('no files given')
+    }
+    let resolved: LintConfig
+    try {
+        resolved = resolveProfile(config)
+    } catch (error: any) {
+        throw new UsageError(`--profile: ${error.message}`)
+    }
+    if (!resolved.databaseUrl && !options.managedCluster) {
+        throw new UsageError('no database URL given: pass --database-url or set PGLINT_DATABASE_URL')
+    }
+    return options
+}
+
+async function resolveFiles(patterns: string[]): Promise<string[]> {
+    const cwd = process.cwd()
+    const files: string[] = []
+    for (const pattern of patterns) {
+        const matches = await expandGlob(pattern, cwd)
+        if (matches.length === 0 && isGlob(pattern)) {
+            process.stderr.write(`pglint: no files match ${pattern}\n`)
+        }
+        for (const file of matches) {
+            if (!files.includes(file)) {
+                files.push(file)
+            }
+        }
+    }
+    return files
+}
+
+interface FileResult {
+    path: string
+    diagnostics: readonly Diagnostic[]
+    /// With `--profiler`, the profiled lines of the PL/pgSQL routines created in the file.
+    profile?: readonly ProfiledLine[]
+}
+
+function diagnosticKey({ range: { start, end }, severity, message }: Diagnostic): string {
+    return `${start.line}:${start.character}:${end.line}:${end.character}:${severity}:${message}`
+}
+
+function formatText(results: FileResult[]): string {
+    const cwd = process.cwd()
+    const lines: string[] = []
+    for (const { path: filePath, diagnostics } of results) {
+        const relativePath = path.relative(cwd, filePath)
+        for (const { range: { start }, severity, message } of diagnostics) {
+            // 1-based like compilers print them; the JSON output keeps the extension's 0-based ranges
+            const level = DiagnosticSeverity[severity].toLowerCase()
+            lines.push(`${relativePath}:${start.line + 1}:${start.character + 1}: ${level}: ${message}`)
+        }
+    }
+    return lines.join('\n')
+}
+
+function formatJson(results: FileResult[]): string {
+    return JSON.stringify(results.map(({ path, diagnostics, profile }) => ({
+        path,
+        diagnostics: diagnostics.map(({ range, severity, message, source, code, relatedInformation }) => ({
+            range,
+            severity: DiagnosticSeverity[severity],
+            message,
+            source,
+            code,
+            relatedInformation,
+        })),
+        profile,
+    })), null, 2)
+}
+
+function formatSarif(results: FileResult[]): string {
+    const log = buildSarifLog(new Map(results.map(({ path, diagnostics }) => [path, diagnostics])), { rootDir: process.cwd() })
+    return JSON.stringify(log, null, 2)
+}
+
+async function main(args: string[]): Promise<number> {
+    let options: CliOptions | null
+    try {
+        options = parseArgs(args)
+    } catch (error: any) {
+        if (error instanceof UsageError) {
+            process.stderr.write(`pglint: ${error.message}\n\n${USAGE}`)
+            return 2
+        }
+        throw error
+    }
+    if (!options) {
+        process.stdout.write(USAGE)
+        return 0
+    }
+
+    const { config, verbose, format } = options
+    const log: Log = {
+        appendLine: (value: string) => {
+            if (verbose) {
+                process.stderr.write(`${value}\n`)
+            }
+        },
+    }
+    let failed = false
+    setHost({
+        getConfig: () => config,
+        log,
+        notify: (level, message, error) => {
+            const details = error?.message ? `: ${error.message}` : ''
+            process.stderr.write(`pglint: ${level}: ${message}${details}\n`)
+            if (level === 'error') {
+                failed = true
+            }
+        },
+    })
+
+    const files = await resolveFiles(options.patterns)
+    const results: Map<string, FileResult> = new Map()
+    let cluster: ManagedCluster | null = null
+    let clusterDirectory: string | null = null
+    try {
+        if (options.managedCluster) {
+            clusterDirectory = await mkdtemp(path.join(tmpdir(), 'pglint-cluster-'))
+            cluster = new ManagedCluster({ dataDirectory: path.join(clusterDirectory, 'data'), binDirectory: options.postgresBinDirectory })
+            try {
+                config.databaseUrl = await cluster.start()
+                config.profiles = withoutDatabaseUrls(config.profiles)
+            } catch (error: any) {
+                process.stderr.write(`pglint: failed to start the managed cluster: ${error.stderr?.trim() || error.message}\n`)
+                return 2
+            }
+        }
+        for (const file of files) {
+            let buffer
+            try {
+                buffer = await lintFile(file)
+            } catch (error: any) {
+                process.stderr.write(`pglint: ${file}: ${error.message}\n`)
+                failed = true
+                continue
+            }
+            // a file that is also included by another file gets the diagnostics of both runs, minus duplicates
+            for (const [path, diagnostics] of buffer.getAll()) {
+                const existing = results.get(path)?.diagnostics ?? []
+                const keys = new Set(existing.map(diagnosticKey))
+                results.set(path, { path, diagnostics: [...existing, ...diagnostics.filter(d => !keys.has(diagnosticKey(d)))] })
+            }
+            // the routines of an included file are created (and profiled) again by each file including it
+            for (const [path, profile] of buffer.getProfiles()) {
+                const result = results.get(path) ?? { path, diagnostics: [] }
+                results.set(path, { ...result, profile: [...result.profile ?? [], ...profile] })
+            }
+        }
+    } finally {
+        await disposeDatabasePool()
+        await closeMaintenanceClient()
+        await cluster?.stop()
+        if (clusterDirectory) {
+            await rm(clusterDirectory, { recursive: true, force: true })
+        }
+    }
+
+    const formatters = { text: formatText, json: formatJson, sarif: formatSarif }
+    const output = formatters[format]([...results.values()])
+    if (output) {
+        process.stdout.write(`${output}\n`)
+    }
+
+    if (failed) {
+        return 2
+    }
+    const hasErrors = [...results.values()].some(({ diagnostics }) =>
+        diagnostics.some(({ severity }) => severity === DiagnosticSeverity.Error))
+    return hasErrors ? 1 : 0
+}
+
+main(process.argv.slice(2)).then(
+    code => process.exit(code),
+    error => {
+        process.stderr.write(`pglint: ${error?.stack ?? error}\n`)
+        process.exit(2)
+    },
+)
@@ -1,36 +1,74 @@
 import * as vscode from 'vscode'
+import * as path from 'path'
+import { getLog, LintConfig, LintProfile, Log, MessageLevel, resolveProfile, setHost, withoutDatabaseUrls } from './core'
 import { showMessage } from './showMessage'
 
 export const EXTENSION_NAME: string = 'pglint'
 export const LINT_COMMAND: string = 'pglint.lint'
 export const TERMINATE_COMMAND: string = 'pglint.terminateTemplateConnections'
-
-export interface PgLintConfig {
-    databaseUrl: string
+export const DROP_SCRATCH_DATABASES_COMMAND: string = 'pglint.dropScratchDatabases'
+export const DROP_CHECKPOINTS_COMMAND: string = 'pglint.dropCheckpoints'
+export const EXPORT_SARIF_COMMAND: string = 'pglint.exportSarif'
+export const LINT_WORKSPACE_COMMAND: string = 'pglint.lintWorkspace'
+export const SELECT_PROFILE_COMMAND: string = 'pglint.selectProfile'
+export const SET_PASSWORD_COMMAND: string = 'pglint.setPassword'
+/// Prefix of the `SecretStorage` keys of the passwords, which are stored by `getConnectionKey`.
+const PASSWORD_SECRET_PREFIX: string = 'pglint.password:'
+
+/// The core lint settings plus those only the extension uses.
+export interface PgLintConfig extends LintConfig {
     languageIds: string[]
     lintOnSave: boolean
     clearOnChange: boolean
-    warnWholeStatement: boolean
-    queryStats: boolean
-    autoTerminateTemplateConnections: boolean
-    tempDatabasePrefix: string
-    usePlPgsqlCheck: boolean
+    lintOnType: boolean
+    lintOnTypeDelay: number
+    workspaceInclude: string[]
+    workspaceExclude: string[]
+    workspaceConcurrency: number
+    managedCluster: boolean
+    postgresBinDirectory: string
 }
 
 export class ConfigKey {
     public static readonly languageIds: string = 'languageIds'
     public static readonly databaseUrl: string = 'databaseUrl'
+    public static readonly sslMode: string = 'sslMode'
+    public static readonly sslRootCert: string = 'sslRootCert'
     public static readonly lintOnSave: string = 'lintOnSave'
     public static readonly clearOnChange: string = 'clearOnChange'
+    public static readonly lintOnType: string = 'lintOnType'
+    public static readonly lintOnTypeDelay: string = 'lintOnTypeDelay'
     public static readonly warnWholeStatement: string = 'warnWholeStatement'
     public static readonly queryStats: string = 'queryStats'
     public static readonly autoTerminateTemplateConnections: string = 'autoTerminateTemplateConnections'
     public static readonly tempDatabasePrefix: string = 'tempDatabasePrefix'
     public static readonly usePlPgsqlCheck: string = 'usePlPgsqlCheck'
+    public static readonly plPgsqlCheckWarnings: string = 'plPgsqlCheckWarnings'
+    public static readonly profiler: string = 'profiler'
+    public static readonly errorMode: string = 'errorMode'
+    public static readonly isolation: string = 'isolation'
+    public static readonly nonTransactionalStatements: string = 'nonTransactionalStatements'
+    public static readonly checkpoints: string = 'checkpoints'
+    public static readonly checkpointInterval: string = 'checkpointInterval'
+    public static readonly maxCheckpoints: string = 'maxCheckpoints'
+    public static readonly maxCheckpointDiskMb: string = 'maxCheckpointDiskMb'
+    public static readonly warmDatabases: string = 'warmDatabases'
+    public static readonly migrationsDirectory: string = 'migrationsDirectory'
+    public static readonly migrationOrder: string = 'migrationOrder'
+    public static readonly migrationLayout: string = 'migrationLayout'
+    public static readonly variables: string = 'variables'
+    public static readonly profile: string = 'profile'
+    public static readonly profiles: string = 'profiles'
+    public static readonly managedCluster: string = 'managedCluster'
+    public static readonly postgresBinDirectory: string = 'postgresBinDirectory'
+    public static readonly workspaceInclude: string = 'workspaceInclude'
+    public static readonly workspaceExclude: string = 'workspaceExclude'
+    public static readonly workspaceConcurrency: string = 'workspaceConcurrency'
 }
 
+/// Reads the settings of a resource (a document or workspace folder), so that each workspace folder
+/// of a multi-root workspace can have settings of its own.
 export class ConfigurationManager {
-    private config: vscode.WorkspaceConfiguration
     private subscription: vscode.Disposable
 
     public getSubscription(): vscode.Disposable {
@@ -38,68 +76,178 @@ export class ConfigurationManager {
     }
 
     constructor() {
-        this.config = vscode.workspace.getConfiguration(EXTENSION_NAME)
         this.subscription = this.setupConfigurationListener()
     }
 
     private setupConfigurationListener(): vscode.Disposable {
         return vscode.workspace.onDidChangeConfiguration(event => {
             if (event.affectsConfiguration(EXTENSION_NAME)) {
-                this.config = vscode.workspace.getConfiguration(EXTENSION_NAME)
                 this.validate()
             }
         })
     }
 
-    private getMaybe(): Partial<PgLintConfig> {
+    private getMaybe(resource?: vscode.Uri): Partial<PgLintConfig> {
+        const config = vscode.workspace.getConfiguration(EXTENSION_NAME, resource)
+        const workspaceFolder = resource && vscode.workspace.getWorkspaceFolder(resource)
+        const managedCluster: boolean | undefined = config.get(ConfigKey.managedCluster)
         return {
-            databaseUrl: this.config.get(ConfigKey.databaseUrl),
-            languageIds: this.config.get(ConfigKey.languageIds),
-            lintOnSave: this.config.get(ConfigKey.lintOnSave),
-            clearOnChange: this.config.get(ConfigKey.clearOnChange),
-            warnWholeStatement: this.config.get(ConfigKey.warnWholeStatement),
-            queryStats: this.config.get(ConfigKey.queryStats),
-            autoTerminateTemplateConnections: this.config.get(ConfigKey.autoTerminateTemplateConnections),
-            tempDatabasePrefix: this.config.get(ConfigKey.tempDatabasePrefix),
-            usePlPgsqlCheck: this.config.get(ConfigKey.usePlPgsqlCheck),
+            databaseUrl: managedCluster ? _managedClusterUrl : config.get(ConfigKey.databaseUrl),
+            sslMode: config.get(ConfigKey.sslMode),
+            sslRootCert: config.get(ConfigKey.sslRootCert),
+            managedCluster,
+            postgresBinDirectory: config.get(ConfigKey.postgresBinDirectory),
+            languageIds: config.get(ConfigKey.languageIds),
+            lintOnSave: config.get(ConfigKey.lintOnSave),
+            clearOnChange: config.get(ConfigKey.clearOnChange),
+            lintOnType: config.get(ConfigKey.lintOnType),
+            lintOnTypeDelay: config.get(ConfigKey.lintOnTypeDelay),
+            warnWholeStatement: config.get(ConfigKey.warnWholeStatement),
+            queryStats: config.get(ConfigKey.queryStats),
+            autoTerminateTemplateConnections: config.get(ConfigKey.autoTerminateTemplateConnections),
+            tempDatabasePrefix: config.get(ConfigKey.tempDatabasePrefix),
+            usePlPgsqlCheck: config.get(ConfigKey.usePlPgsqlCheck),
+            plPgsqlCheckWarnings: config.get(ConfigKey.plPgsqlCheckWarnings),
+            profiler: config.get(ConfigKey.profiler),
+            errorMode: config.get(ConfigKey.errorMode),
+            isolation: config.get(ConfigKey.isolation),
+            nonTransactionalStatements: config.get(ConfigKey.nonTransactionalStatements),
+            checkpoints: config.get(ConfigKey.checkpoints),
+            checkpointInterval: config.get(ConfigKey.checkpointInterval),
+            maxCheckpoints: config.get(ConfigKey.maxCheckpoints),
+            maxCheckpointDiskMb: config.get(ConfigKey.maxCheckpointDiskMb),
+            warmDatabases: config.get(ConfigKey.warmDatabases),
+            migrationsDirectory: this.resolveMigrationsDirectory(config.get(ConfigKey.migrationsDirectory), workspaceFolder),
+            migrationOrder: config.get(ConfigKey.migrationOrder),
+            migrationLayout: config.get(ConfigKey.migrationLayout),
+            variables: config.get(ConfigKey.variables),
+            profile: config.get(ConfigKey.profile),
+            profiles: this.resolveProfiles(config.get(ConfigKey.profiles) ?? {}, !!managedCluster, workspaceFolder),
+            workspaceInclude: config.get(ConfigKey.workspaceInclude),
+            workspaceExclude: config.get(ConfigKey.workspaceExclude),
+            workspaceConcurrency: config.get(ConfigKey.workspaceConcurrency),
+        }
+    }
+
+    /// Relative paths are relative to the workspace folder of the resource, and don't apply to resources outside of one.
+    private resolveMigrationsDirectory(directory: string | undefined, workspaceFolder?: vscode.WorkspaceFolder): string | undefined {
+        if (!directory || path.isAbsolute(directory)) {
+            return directory
         }
+        return workspaceFolder ? path.join(workspaceFolder.uri.fsPath, directory) : ''
+    }
+
+    /// The managed cluster replaces the server of every profile.
+    private resolveProfiles(profiles: Record<string, LintProfile>, managedCluster: boolean, workspaceFolder?: vscode.WorkspaceFolder): Record<string, LintProfile> {
+        const resolved = Object.fromEntries(Object.entries(profiles).map(([name, profile]) => [name, {
+            ...profile,
+            ...(profile.migrationsDirectory !== undefined
+                ? { migrationsDirectory: this.resolveMigrationsDirectory(profile.migrationsDirectory, workspaceFolder) }
+                : {}),
+        }]))
+        return managedCluster ? withoutDatabaseUrls(resolved) : resolved
     }
 
     private databaseUrlError(): string {
-        return `Please set ${EXTENSION_NAME}.databaseUrl in settings.`
+        return `Please set ${EXTENSION_NAME}.databaseUrl (or enable ${EXTENSION_NAME}.managedCluster) in settings.`
+    }
+
+    private profileError(profile: string): string {
+        return `${EXTENSION_NAME}.profile is set to ${profile}, which is not defined in ${EXTENSION_NAME}.profiles.`
+    }
+
+    /// Returns the settings of `resource` (by default, those of the workspace), before applying the profile.
+    /// With `managedCluster`, `databaseUrl` is empty until the cluster has started (see `ensureManagedCluster`).
+    public get(resource?: vscode.Uri): PgLintConfig {
+        const config = this.getMaybe(resource)
+        const error = this.getError(config)
+        if (error) {
+            throw new Error(error)
+        }
+        return { ...config, databaseUrl: config.databaseUrl ?? '' } as Required<PgLintConfig>
+    }
+
+    /// Unlike `get`, doesn't require `databaseUrl`, which the managed cluster provides.
+    public getManagedClusterSettings(): Pick<PgLintConfig, 'managedCluster' | 'postgresBinDirectory'> {
+        const { managedCluster, postgresBinDirectory } = this.getMaybe()
+        return { managedCluster: !!managedCluster, postgresBinDirectory: postgresBinDirectory ?? '' }
+    }
+
+    /// Unlike `get`, doesn't require a valid profile, so that it can be switched.
+    public getProfileSettings(resource?: vscode.Uri): Pick<PgLintConfig, 'languageIds' | 'profile' | 'profiles'> {
+        const { languageIds, profile, profiles } = this.getMaybe(resource)
+        return { languageIds: languageIds ?? [], profile: profile ?? '', profiles: profiles ?? {} }
     }
 
-    public get(): PgLintConfig {
-        const config = this.getMaybe()
-        const { databaseUrl } = config
-        if (!databaseUrl) {
-            throw new Error(this.databaseUrlError())
+    private getError(config: Partial<PgLintConfig>): string | null {
+        let resolved: LintConfig
+        try {
+            resolved = resolveProfile(config as LintConfig)
+        } catch {
+            return this.profileError(config.profile!)
         }
-        return config as Required<PgLintConfig>
+        if (!resolved.databaseUrl && !config.managedCluster) {
+            return this.databaseUrlError()
+        }
+        return null
     }
 
     private validate(): void {
-        const config = this.getMaybe()
-        if (!config.databaseUrl) {
-            showMessage(vscode.LogLevel.Error, this.databaseUrlError())
+        const folders = vscode.workspace.workspaceFolders ?? []
+        const resources = folders.length > 0 ? folders.map(folder => folder.uri) : [undefined]
+        const errors = new Set(resources.map(resource => this.getError(this.getMaybe(resource))))
+        for (const error of errors) {
+            if (error) {
+                showMessage(vscode.LogLevel.Error, error)
+            }
         }
     }
 }
 
+const MESSAGE_LOG_LEVELS: Record<MessageLevel, vscode.LogLevel> = {
+    error: vscode.LogLevel.Error,
+    warning: vscode.LogLevel.Warning,
+    info: vscode.LogLevel.Info,
+}
+
 let _configManager!: ConfigurationManager
+let _managedClusterUrl: string | undefined
 let _channel!: vscode.OutputChannel
+let _secrets!: vscode.SecretStorage
 
 export function getConfigManager(): ConfigurationManager {
     return _configManager
 }
 
-export function getChannel(): vscode.OutputChannel {
-    return _channel
+/// Returns the log section of the current lint run, or the output channel outside of a run.
+export function getChannel(): Log {
+    return getLog()
+}
+
+export function setManagedClusterUrl(url: string | undefined) {
+    _managedClusterUrl = url
+}
+
+/// Stores the password of `connection` (see `getConnectionKey`), or deletes it if `password` is empty.
+export async function storePassword(connection: string, password: string): Promise<void> {
+    if (password) {
+        await _secrets.store(PASSWORD_SECRET_PREFIX + connection, password)
+    } else {
+        await _secrets.delete(PASSWORD_SECRET_PREFIX + connection)
+    }
 }
 
-export function setup() {
+export function setup(secrets: vscode.SecretStorage) {
+    _secrets = secrets
     _channel = vscode.window.createOutputChannel(EXTENSION_NAME)
     _configManager = new ConfigurationManager()
+    setHost({
+        // outside of a lint run (see `withConfig`), e.g. in commands, the settings of the active document apply
+        getConfig: () => _configManager.get(vscode.window.activeTextEditor?.document.uri),
+        log: _channel,
+        notify: (level, message, error) => showMessage(MESSAGE_LOG_LEVELS[level], message, error),
+        getPassword: async connection => await _secrets.get(PASSWORD_SECRET_PREFIX + connection),
+    })
 }
 
 export function teardown() {
@@ -0,0 +1,189 @@
+import { Client } from 'pg'
+import { createHash } from 'crypto'
+import { LintConfig } from './config'
+import { getConfig, getLog } from './host'
+import { connectClient, LintConnection } from './lintConnection'
+import { getMaintenanceClient } from './maintenanceConnection'
+import { Statement } from './splitIntoStatements'
+import { quoteDatabaseName } from './validateDatabaseName'
+
+const CHECKPOINT_INFIX: string = 'ckpt_'
+const LAST_USED_COMMENT_PREFIX: string = 'pglint checkpoint, last used: '
+
+/// Statements whose effects live in the session rather than the database, so they would be lost
+/// when reconnecting to a clone. No checkpoints are created or restored after one of these.
+const SESSION_STATE_REGEX: RegExp = /^\s*(SET|RESET|CREATE\s+((GLOBAL|LOCAL)\s+)?TEMP(ORARY)?|PREPARE|DECLARE|LISTEN|LOAD|DISCARD)\b/i
+
+export interface Checkpoint {
+    /// Index of the last statement whose effects are contained in the checkpoint.
+    index: number
+    database: string
+}
+
+function getCheckpointPrefix(config: LintConfig): string {
+    return `${config.tempDatabasePrefix}${CHECKPOINT_INFIX}`
+}
+
+/// Checkpoint databases contain the state after a successful prefix of a file's statements.
+/// Each checkpoint is keyed on a hash chain over the SQL of the statements in the prefix
+/// (and the `@template`, its version and session directives), so an edit invalidates exactly the checkpoints after it,
+/// and a change of the template all of them.
+export class Checkpoints {
+    private config: LintConfig
+    private statements: Statement[]
+    /// `databases[i]` is the checkpoint database name for the prefix ending at statement `i`,
+    /// or `null` if no checkpoint can be taken there.
+    private databases: (string | null)[]
+    /// Index of a statement to always take a checkpoint after, even with `checkpoints` off,
+    /// e.g. the last statement of the previous migrations.
+    private boundary?: number
+
+    /// `templateVersion` is the version of `template` (see `getTemplateVersion`).
+    constructor(statements: Statement[], template?: string, templateVersion?: string | null, boundary?: number) {
+        this.config = getConfig()
+        this.statements = statements
+        this.boundary = boundary
+
+        // what plpgsql_check reports on a statement depends on its settings, and a restored statement is not checked again
+        const { usePlPgsqlCheck, plPgsqlCheckWarnings } = this.config
+        let hash = createHash('sha1').update(`${template ?? ''}\0${templateVersion ?? ''}\0${usePlPgsqlCheck}\0${[...plPgsqlCheckWarnings].sort().join(',')}`).digest('hex')
+        let checkpointable = true
+        this.databases = statements.map(({ sql, error, copyData, expectError, session }) => {
+            if (error || (sql && SESSION_STATE_REGEX.test(sql))) {
+                checkpointable = false
+            }
+            // session directives are reapplied after reconnecting, but what runs after them depends on them
+            if (session && checkpointable) {
+                hash = createHash('sha1').update(`${hash}\0${session.directive}`).digest('hex')
+            }
+            if (!checkpointable || !sql) {
+                return null
+            }
+            // an expectation is checked when the statement runs, so changing it must not restore past it
+            let content = copyData === undefined ? sql : `${sql}\0${copyData}`
+            if (expectError) {
+                content += `\0@expect-error ${expectError.text}`
+            }
+            hash = createHash('sha1').update(`${hash}\0${content}`).digest('hex')
+            return `${getCheckpointPrefix(this.config)}${hash.substring(0, 20)}`
+        })
+    }
+
+    /// Returns the checkpoint for the longest unchanged prefix, if one exists on the server.
+    public async findLatest(): Promise<Checkpoint | null> {
+        const candidates = this.databases.filter(database => database !== null)
+        if (candidates.length === 0) {
+            return null
+        }
+        const client = await getMaintenanceClient()
+        const result = await client.query('SELECT datname FROM pg_database WHERE datname = ANY($1);', [candidates])
+        const existing = new Set(result.rows.map(row => row.datname))
+        for (let index = this.databases.length - 1; index >= 0; index--) {
+            const database = this.databases[index]
+            if (database && existing.has(database)) {
+                await touch(client, database)
+                return { index, database }
+            }
+        }
+        return null
+    }
+
+    /// Checkpoints are taken every `checkpointInterval` statements and at the end of each `@include`d file,
+    /// as well as at the `boundary`, but not after the last statement.
+    public shouldCreate(index: number): boolean {
+        if (!this.databases[index] || index >= this.statements.length - 1) {
+            return false
+        }
+        if (index === this.boundary) {
+            return true
+        }
+        if (!this.config.checkpoints) {
+            return false
+        }
+        const interval = Math.max(1, this.config.checkpointInterval)
+        const { includedAt } = this.statements[index]
+        const nextIncludedAt = this.statements[index + 1].includedAt
+        const isIncludeBoundary = !!includedAt && (
+            !nextIncludedAt
+            || nextIncludedAt.path !== includedAt.path
+            || nextIncludedAt.startOffset !== includedAt.startOffset
+        )
+        return (index + 1) % interval === 0 || isIncludeBoundary
+    }
+
+    /// Clones the connection's database into the checkpoint for the prefix ending at statement `index`.
+    /// `CREATE DATABASE ... TEMPLATE` requires that nobody is connected to the source database,
+    /// so the connection is closed and re-established around the clone.
+    public async create(connection: LintConnection, index: number, inTransaction: boolean): Promise<void> {
+        const database = this.databases[index]!
+        const channel = getLog()
+        if (inTransaction) {
+            await connection.client.query('COMMIT')
+        }
+        await connection.client.end()
+        try {
+            const client = await getMaintenanceClient()
+            const existing = await client.query('SELECT 1 FROM pg_database WHERE datname = $1;', [database])
+            if (existing.rowCount === 0) {
+                channel.appendLine(`Creating checkpoint after statement ${index}: ${database}`)
+                await client.query(`CREATE DATABASE ${quoteDatabaseName(database)} TEMPLATE ${quoteDatabaseName(connection.database)};`)
+            }
+            await touch(client, database)
+        } finally {
+            const { client, pid } = await connectClient(connection.clientConfig)
+            connection.client = client
+            connection.pid = pid
+            if (inTransaction) {
+                await connection.client.query('BEGIN')
+            }
+        }
+    }
+}
+
+async function touch(client: Client, database: string) {
+    await client.query(`COMMENT ON DATABASE ${quoteDatabaseName(database)} IS '${LAST_USED_COMMENT_PREFIX}${Date.now()}';`)
+}
+
+async function listCheckpoints(client: Client, config: LintConfig): Promise<{ database: string, lastUsed: number, size: number }[]> {
+    const prefix = getCheckpointPrefix(config)
+    const result = await client.query(`--sql
+        SELECT datname, shobj_description(oid, 'pg_database') AS comment, pg_database_size(oid) AS size
+            FROM pg_database
+            WHERE left(datname, length($1)) = $1;`, [prefix])
+    return result.rows.map(({ datname, comment, size }) => ({
+        database: datname,
+        lastUsed: parseInt((comment ?? '').replace(LAST_USED_COMMENT_PREFIX, '')) || 0,
+        size: parseInt(size),
+    }))
+}
+
+/// Drops the least recently used checkpoints beyond `maxCheckpoints` or `maxCheckpointDiskMb`.
+export async function cleanupCheckpoints(): Promise<void> {
+    const channel = getLog()
+    const config = getConfig()
+    const { maxCheckpoints, maxCheckpointDiskMb } = config
+    const client = await getMaintenanceClient()
+    const checkpoints = (await listCheckpoints(client, config)).sort((a, b) => b.lastUsed - a.lastUsed)
+    let totalSize = 0
+    for (let i = 0; i < checkpoints.length; i++) {
+        const { database, size } = checkpoints[i]
+        totalSize += size
+        const overDisk = maxCheckpointDiskMb > 0 && totalSize > maxCheckpointDiskMb * 1024 * 1024
+        if (i >= maxCheckpoints || overDisk) {
+            channel.appendLine(`Dropping checkpoint: ${database}`)
+            await client.query(`DROP DATABASE IF EXISTS ${quoteDatabaseName(database)};`)
+        }
+    }
+}
+
+export async function dropCheckpoints(): Promise<string[]> {
+    const channel = getLog()
+    const config = getConfig()
+    const client = await getMaintenanceClient()
+    const checkpoints = await listCheckpoints(client, config)
+    for (const { database } of checkpoints) {
+        channel.appendLine(`Dropping checkpoint: ${database}`)
+        await client.query(`DROP DATABASE IF EXISTS ${quoteDatabaseName(database)};`)
+    }
+    return checkpoints.map(({ database }) => database)
+}
@@ -0,0 +1,15 @@
+import { getConfig, getLog, notify } from './host'
+import { getMaintenanceClient } from './maintenanceConnection'
+
+export async function cleanupDatabase(database: string) {
+    const channel = getLog()
+    const { databaseUrl } = getConfig()
+    try {
+        const cleanupClient = await getMaintenanceClient()
+        channel.appendLine('Running cleanup...')
+        await cleanupClient.query(`DROP DATABASE IF EXISTS "${database}"; `)
+        channel.appendLine('Cleanup completed')
+    } catch (error: any) {
+        notify('error', `Failed to clean up temporary database: ${database}, url: ${databaseUrl} `, error)
+    }
+}
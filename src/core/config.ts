@@ -0,0 +1,115 @@
+/// The `source` of every diagnostic reported by pglint.
+export const SOURCE: string = 'pglint'
+
+/// The `code` of diagnostics that don't come from a database error or plpgsql_check row,
+/// which carry the SQLSTATE instead.
+export class CheckCode {
+    /// An invalid `@include`, `@template` or other directive.
+    public static readonly directive: string = 'directive'
+    public static readonly template: string = 'template'
+    public static readonly unreachable: string = 'unreachable'
+    public static readonly nonTransactional: string = 'non-transactional'
+    public static readonly transactionControl: string = 'transaction-control'
+    public static readonly queryStats: string = 'query-stats'
+    public static readonly checkpoint: string = 'checkpoint'
+    /// A statement after an `@expect-error` directive succeeded.
+    public static readonly expectError: string = 'expect-error'
+    /// A psql meta-command (`\connect`, `\set`, ...) that is not run.
+    public static readonly metaCommand: string = 'meta-command'
+    /// A previous migration failed, so the migration being linted could not be.
+    public static readonly migration: string = 'migration'
+    /// A plpgsql_check row without an SQLSTATE of its own.
+    public static readonly plpgsqlCheck: string = 'plpgsql_check'
+}
+
+/// `stop`: abort the lint cycle at the first failing statement.
+/// `continue`: wrap each statement in a SAVEPOINT and keep going after failures.
+export type ErrorMode = 'stop' | 'continue'
+
+/// `tempDatabase`: create and drop a temporary database each lint cycle.
+/// `transaction`: run the file inside `BEGIN ... ROLLBACK` on a long-lived scratch database.
+export type Isolation = 'tempDatabase' | 'transaction'
+
+/// What to do in `transaction` isolation with statements that cannot run inside a transaction block.
+export type NonTransactionalStatements = 'fallback' | 'report'
+
+/// How the files in the migrations directory are ordered. Flyway `V<version>__` files are always ordered by version.
+/// `lexical`: by file name.
+/// `timestamp`: by the number (e.g. a timestamp) that file names start with; other files are not migrations.
+export type MigrationOrder = 'lexical' | 'timestamp'
+
+/// Which part of a migration file is run: the whole file (`plain`), the `-- migrate:up` section (`dbmate`),
+/// or the whole file of a `V<version>__<description>.sql` / `R__<description>.sql` file (`flyway`).
+/// `auto` detects the layout from the file name and contents.
+export type MigrationLayout = 'auto' | 'plain' | 'dbmate' | 'flyway'
+
+/// The optional plpgsql_check warning categories (arguments of `plpgsql_check_function_tb`).
+/// Errors and other warnings are always reported.
+export type PlPgsqlCheckWarning = 'extra_warnings' | 'performance_warnings' | 'security_warnings' | 'compatibility_warnings'
+
+/// libpq's `sslmode`, `''` to leave it to the URL, the service or `PGSSLMODE`.
+export type SslMode = '' | 'disable' | 'allow' | 'prefer' | 'require' | 'verify-ca' | 'verify-full'
+
+/// The settings that affect how a file is linted, shared by the extension and the CLI.
+export interface LintConfig {
+    databaseUrl: string
+    /// Used unless `databaseUrl` has an `sslmode` of its own.
+    sslMode: SslMode
+    /// The root certificate file to verify the server with, unless `databaseUrl` has an `sslrootcert`.
+    sslRootCert: string
+    warnWholeStatement: boolean
+    queryStats: boolean
+    autoTerminateTemplateConnections: boolean
+    tempDatabasePrefix: string
+    usePlPgsqlCheck: boolean
+    plPgsqlCheckWarnings: PlPgsqlCheckWarning[]
+    /// Run the plpgsql_check profiler and report the line coverage and timing of the PL/pgSQL routines the file creates.
+    profiler: boolean
+    errorMode: ErrorMode
+    isolation: Isolation
+    nonTransactionalStatements: NonTransactionalStatements
+    checkpoints: boolean
+    checkpointInterval: number
+    maxCheckpoints: number
+    maxCheckpointDiskMb: number
+    warmDatabases: number
+    /// Absolute path (or relative to the current directory) of the migrations directory, `''` if none.
+    migrationsDirectory: string
+    migrationOrder: MigrationOrder
+    migrationLayout: MigrationLayout
+    /// psql variables (as set with `psql -v name=value`), interpolated as `:name`, `:'name'` and `:"name"`.
+    variables: Record<string, string>
+    /// The name of the profile in `profiles` to apply, `''` for none. A `-- @profile` directive overrides it.
+    profile: string
+    profiles: Record<string, LintProfile>
+}
+
+/// Named settings that override the others when selected, e.g. the database of one service in a multi-root workspace.
+export type LintProfile = Partial<Omit<LintConfig, 'profile' | 'profiles'>>
+
+/// Must match the defaults in the extension's `package.json`.
+export const DEFAULT_LINT_CONFIG: Omit<LintConfig, 'databaseUrl'> = {
+    sslMode: '',
+    sslRootCert: '',
+    warnWholeStatement: true,
+    queryStats: true,
+    autoTerminateTemplateConnections: false,
+    tempDatabasePrefix: 'temp_pglint_',
+    usePlPgsqlCheck: true,
+    plPgsqlCheckWarnings: ['extra_warnings'],
+    profiler: false,
+    errorMode: 'stop',
+    isolation: 'tempDatabase',
+    nonTransactionalStatements: 'fallback',
+    checkpoints: false,
+    checkpointInterval: 50,
+    maxCheckpoints: 20,
+    maxCheckpointDiskMb: 0,
+    warmDatabases: 1,
+    migrationsDirectory: '',
+    migrationOrder: 'lexical',
+    migrationLayout: 'auto',
+    variables: {},
+    profile: '',
+    profiles: {},
+}
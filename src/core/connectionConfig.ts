@@ -0,0 +1,179 @@
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { Client, ClientConfig } from 'pg'
+import { parse, toClientConfig } from 'pg-connection-string'
+import { LintConfig } from './config'
+import { getConfig, getStoredPassword } from './host'
+
+const IS_WINDOWS: boolean = process.platform === 'win32'
+/// Where libpq looks for the user's files: `~/.postgresql` (or `%APPDATA%\postgresql` on Windows).
+const USER_DIRECTORY: string = IS_WINDOWS
+    ? path.join(process.env.APPDATA ?? os.homedir(), 'postgresql')
+    : path.join(os.homedir(), '.postgresql')
+const DEFAULT_ROOT_CERT: string = path.join(USER_DIRECTORY, 'root.crt')
+const DEFAULT_SERVICE_FILE: string = IS_WINDOWS ? path.join(USER_DIRECTORY, '.pg_service.conf') : path.join(os.homedir(), '.pg_service.conf')
+const SERVICE_SECTION_REGEX: RegExp = /^\[(.*)\]$/
+const NO_SSL_MESSAGE: string = 'The server does not support SSL connections'
+/// The URL parameters that pg-connection-string reads from the URL itself, and where.
+const URL_PARTS: Record<string, (url: URL) => string> = {
+    host: url => url.hostname,
+    port: url => url.port,
+    user: url => url.username,
+    password: url => url.password,
+    dbname: url => url.pathname.substring(1),
+}
+
+/// Returns the `[name]` section of the first service file that has it: `PGSERVICEFILE` (or `~/.pg_service.conf`),
+/// then `pg_service.conf` in `PGSYSCONFDIR`.
+/// throws if no service file defines it
+export async function readService(name: string): Promise<Record<string, string>> {
+    const files = [process.env.PGSERVICEFILE ?? DEFAULT_SERVICE_FILE]
+    if (process.env.PGSYSCONFDIR) {
+        files.push(path.join(process.env.PGSYSCONFDIR, 'pg_service.conf'))
+    }
+    for (const file of files) {
+        let text: string
+        try {
+            text = await fs.readFile(file, 'utf8')
+        } catch {
+            continue
+        }
+        let section: Record<string, string> | null = null
+        for (const rawLine of text.split(/\r?\n/)) {
+            const line = rawLine.trim()
+            if (!line || line.startsWith('#')) {
+                continue
+            }
+            const header = line.match(SERVICE_SECTION_REGEX)
+            if (header) {
+                if (section) {
+                    break
+                }
+                section = header[1] === name ? {} : null
+            } else if (section) {
+                const separator = line.indexOf('=')
+                if (separator > 0) {
+                    section[line.substring(0, separator).trim()] = line.substring(separator + 1).trim()
+                }
+            }
+        }
+        if (section) {
+            return section
+        }
+    }
+    throw new Error(`definition of service "${name}" not found`)
+}
+
+/// The key that passwords are stored by: `user@host:port`, with the same defaults as `pg`.
+export function getConnectionKey({ host, port, user }: { host?: string | null, port?: number | string | null, user?: string | null }): string {
+    const defaultUser = IS_WINDOWS ? process.env.USERNAME : process.env.USER
+    return `${user || process.env.PGUSER || defaultUser}@${host || process.env.PGHOST || 'localhost'}:${port || process.env.PGPORT || 5432}`
+}
+
+/// Returns the `pg` config to connect to `databaseUrl` (the maintenance database) with, following libpq:
+/// - a `service` (URL parameter, or `PGSERVICE`) from the service file fills in what the URL leaves out;
+/// - `sslmode` (URL, service, `sslMode`, `PGSSLMODE`) and `sslrootcert` (URL, service, `sslRootCert`, `PGSSLROOTCERT`,
+///   `~/.postgresql/root.crt` for `verify-*`) have libpq's meanings;
+/// - without a password in the URL or service, the stored password (see `LintHost.getPassword`) is used, else `pg`
+///   falls back to `PGPASSWORD`, then the password file, when the server asks for one.
+/// throws
+export async function getConnectionConfig(config: LintConfig = getConfig()): Promise<ClientConfig> {
+    const { databaseUrl, sslMode, sslRootCert } = config
+    let url: URL
+    try {
+        url = new URL(databaseUrl)
+    } catch {
+        // e.g. a Unix socket directory, which pg-connection-string also accepts
+        return await withStoredPassword(toClientConfig(parse(databaseUrl)))
+    }
+    const params = url.searchParams
+
+    const service = params.get('service') ?? process.env.PGSERVICE
+    params.delete('service')
+    if (service) {
+        for (const [key, value] of Object.entries(await readService(service))) {
+            const fromUrl = URL_PARTS[key]?.(url)
+            if (!fromUrl && !params.has(key === 'dbname' ? 'database' : key)) {
+                if (key === 'dbname') {
+                    url.pathname = `/${value}`
+                } else {
+                    params.set(key, value)
+                }
+            }
+        }
+    }
+
+    const setDefault = (key: string, ...values: (string | undefined)[]) => {
+        const value = values.find(v => !!v)
+        if (!params.has(key) && value) {
+            params.set(key, value)
+        }
+    }
+    setDefault('sslmode', sslMode, process.env.PGSSLMODE)
+    setDefault('sslrootcert', sslRootCert, process.env.PGSSLROOTCERT)
+    const mode = params.get('sslmode')
+    if (mode === 'allow') {
+        // pg can't fall back from one to the other, so like libpq's first attempt
+        params.set('sslmode', 'disable')
+    }
+    if ((mode === 'verify-ca' || mode === 'verify-full') && !params.has('sslrootcert') && await exists(DEFAULT_ROOT_CERT)) {
+        params.set('sslrootcert', DEFAULT_ROOT_CERT)
+    }
+    params.delete('uselibpqcompat')
+
+    const clientConfig = await withStoredPassword(toClientConfig(parse(url.toString(), { useLibpqCompat: true })))
+    if (params.get('sslmode') === 'prefer') {
+        _sslPreferred.add(clientConfig)
+    }
+    return clientConfig
+}
+
+/// The configs returned by `getConnectionConfig` for `sslmode=prefer`, which may fall back to no SSL.
+const _sslPreferred: WeakSet<ClientConfig> = new WeakSet()
+
+/// Connects a client with `clientConfig` from `getConnectionConfig`. With `sslmode=prefer`, connects without SSL
+/// if the server doesn't support it, like libpq (`pg` itself fails).
+export async function connectWithConfig(clientConfig: ClientConfig): Promise<Client> {
+    const client = new Client(clientConfig)
+    try {
+        await client.connect()
+        return client
+    } catch (error: any) {
+        if (!_sslPreferred.has(clientConfig) || error.message !== NO_SSL_MESSAGE) {
+            throw error
+        }
+    }
+    const withoutSsl = new Client({ ...clientConfig, ssl: false })
+    await withoutSsl.connect()
+    return withoutSsl
+}
+
+/// Returns the config to connect to `database` on the server of the maintenance connection `client`,
+/// with the password it authenticated with (if any), so that it isn't looked up again, and without SSL if it had none.
+export async function getDatabaseConfig(client: Client, database: string): Promise<ClientConfig> {
+    return {
+        ...await getConnectionConfig(),
+        ...(typeof client.password === 'string' ? { password: client.password } : {}),
+        ...(client.ssl ? {} : { ssl: false }),
+        database,
+    }
+}
+
+async function withStoredPassword(clientConfig: ClientConfig): Promise<ClientConfig> {
+    if (clientConfig.password) {
+        return clientConfig
+    }
+    const password: ClientConfig['password'] = await getStoredPassword(getConnectionKey(clientConfig))
+    // without one, pg uses PGPASSWORD, then the password file (PGPASSFILE or ~/.pgpass) like libpq
+    return password === undefined ? clientConfig : { ...clientConfig, password }
+}
+
+async function exists(file: string): Promise<boolean> {
+    try {
+        await fs.access(file)
+        return true
+    } catch {
+        return false
+    }
+}
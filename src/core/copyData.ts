@@ -0,0 +1,12 @@
+import { Client } from 'pg'
+import { from as copyFrom } from 'pg-copy-streams'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+
+/// Runs the `COPY ... FROM STDIN` statement `sql`, streaming `data` (the inline data of a dump or psql script)
+/// to the server with the copy protocol.
+export async function copyFromText(client: Client, sql: string, data: string): Promise<{ command: string, rowCount: number | null }> {
+    const stream = client.query(copyFrom(sql))
+    await pipeline(Readable.from(data ? [data] : []), stream)
+    return { command: 'COPY', rowCount: stream.rowCount }
+}
@@ -1,16 +1,21 @@
-import { ClientConfig, Client, QueryResult } from 'pg'
-import { getConfigManager, getChannel, ConfigKey, EXTENSION_NAME } from './config'
+import { ClientConfig } from 'pg'
+import { getDatabaseConfig } from './connectionConfig'
+import { getConfig, getLog } from './host'
 import { StatementError } from './errors'
 import { ConfigError } from './errors'
 import { GeneralError } from './errors'
 import { Statement } from './splitIntoStatements'
 import { terminateBackend } from './terminateBackend'
-import { validateDatabaseName } from './validateDatabaseName'
+import { getMaintenanceClient } from './maintenanceConnection'
+import { quoteDatabaseName, validateDatabaseName } from './validateDatabaseName'
 
-export async function createTempDatabase(templateStatement?: Statement): Promise<ClientConfig> {
-    const channel = getChannel()
+let sequence = 0
 
-    const config = getConfigManager().get()
+/// `checkpoint`, if given, is the name of a checkpoint database to clone instead of the `@template`.
+export async function createTempDatabase(templateStatement?: Statement, checkpoint?: string): Promise<ClientConfig> {
+    const channel = getLog()
+
+    const config = getConfig()
 
     const template = templateStatement?.template
 
@@ -22,23 +27,24 @@ export async function createTempDatabase(templateStatement?: Statement): Promise
         }
     }
 
-    const databasePrefix = config.tempDatabasePrefix.replace(/(^|[^"])"([^"]|$)/g, '$1""$2')
-
-    const database = `${databasePrefix}${Date.now()} `
-    const quotedDatabase = `"${database}"`
+    // The sequence keeps names unique when several databases are created in the same millisecond (see `DatabasePool`).
+    const database = `${config.tempDatabasePrefix}${Date.now()}_${++sequence}`
+    const quotedDatabase = quoteDatabaseName(database)
     try {
         validateDatabaseName(quotedDatabase)
     } catch (error: any) {
         throw new ConfigError({
             message: `invalid database prefix`,
-            key: ConfigKey.tempDatabasePrefix,
+            key: 'tempDatabasePrefix',
             value: config.tempDatabasePrefix,
             cause: error,
         })
     }
 
     let sql = `CREATE DATABASE ${quotedDatabase}`
-    if (template) {
+    if (checkpoint) {
+        sql += ` TEMPLATE ${quoteDatabaseName(checkpoint)}`
+    } else if (template) {
         if (config.autoTerminateTemplateConnections) {
             await terminateBackend(template)
         }
@@ -46,25 +52,16 @@ export async function createTempDatabase(templateStatement?: Statement): Promise
     }
     channel.appendLine(`creating temp db...`)
 
-    const client = new Client(config.databaseUrl)
-
     try {
-        channel.appendLine('Connecting to Postgres...')
-        await client.connect()
+        const client = await getMaintenanceClient()
         channel.appendLine(`Creating temporary database: ${quotedDatabase}`)
         await client.query(sql)
-        return {
-            host: client.host,
-            port: client.port,
-            user: client.user,
-            password: client.password,
-            database
-        }
+        return await getDatabaseConfig(client, database)
     } catch (error: any) {
-        if (template) {
+        if (template && !checkpoint) {
             let { message } = error
             if (message.includes('is being accessed by other users')) {
-                message += ` (You can set ${EXTENSION_NAME}.${ConfigKey.autoTerminateTemplateConnections} = true in settings to auto-terminate. WARNING! This will kill any active connections and queries on the template database.)`
+                message += ` (You can set pglint.autoTerminateTemplateConnections = true in settings to auto-terminate. WARNING! This will kill any active connections and queries on the template database.)`
             }
             throw new StatementError({
                 message,
@@ -80,7 +77,5 @@ export async function createTempDatabase(templateStatement?: Statement): Promise
             message: `Failed to create temporary database: ${database}, url: ${config.databaseUrl}, sql: ${sql}`,
             cause: error,
         })
-    } finally {
-        await client.end()
     }
 }
@@ -0,0 +1,124 @@
+import { ClientConfig } from 'pg'
+import { LintConfig } from './config'
+import { getConfig, getLog, getSettings, withConfig } from './host'
+import { cleanupDatabase } from './cleanupDatabase'
+import { connectWithConfig, getConnectionConfig } from './connectionConfig'
+import { createTempDatabase } from './createTempDatabase'
+import { getMaintenanceClient } from './maintenanceConnection'
+import { Statement } from './splitIntoStatements'
+import { getTemplateVersion } from './templateVersion'
+
+/// A warm database, and the version of its template when it was created (see `getTemplateVersion`).
+interface WarmDatabase {
+    clientConfig: ClientConfig
+    templateVersion: string | null
+}
+
+/// Keeps `warmDatabases` temporary databases per server and `@template` (or none) created ahead of time,
+/// so a lint cycle doesn't wait for `CREATE DATABASE`, and drops used databases in the background,
+/// so it doesn't wait for `DROP DATABASE` either. Warm clones of a template that changed since are dropped instead of used.
+export class DatabasePool {
+    /// Warm databases by `databaseUrl` and template name (`''` for no template), with the settings they were created with.
+    /// Resolves to `null` if creation failed.
+    private warm: Map<string, { settings: LintConfig, ready: Promise<WarmDatabase | null>[] }> = new Map()
+    private drops: Set<Promise<void>> = new Set()
+
+    public async acquire(templateStatement?: Statement): Promise<ClientConfig> {
+        const key = `${getConfig().databaseUrl}\0${templateStatement?.template ?? ''}`
+        const { ready } = this.warm.get(key) ?? { ready: [] }
+        this.warm.set(key, { settings: getSettings(), ready })
+
+        const template = templateStatement?.template
+        const templateVersion = template && ready.length > 0 ? await readTemplateVersion(template) : null
+        let clientConfig: ClientConfig | null = null
+        while (!clientConfig && ready.length > 0) {
+            const database = await ready.shift()!
+            if (database && database.templateVersion !== templateVersion) {
+                getLog().appendLine(`Dropping warm database ${database.clientConfig.database}, as its template changed`)
+                this.release(database.clientConfig.database!)
+            } else {
+                clientConfig = database?.clientConfig ?? null
+            }
+        }
+        if (!clientConfig) {
+            clientConfig = await createTempDatabase(templateStatement)
+        }
+
+        this.replenish(ready, templateStatement)
+        return clientConfig
+    }
+
+    private replenish(ready: Promise<WarmDatabase | null>[], templateStatement?: Statement) {
+        const channel = getLog()
+        const { warmDatabases } = getConfig()
+        while (ready.length < warmDatabases) {
+            ready.push(createWarmDatabase(templateStatement).catch((error: any) => {
+                channel.appendLine(`Failed to create warm database: ${error.message}`)
+                return null
+            }))
+        }
+    }
+
+    /// Drops `database` (on the server of `settings`, by default the current one) in the background.
+    /// The caller must have disconnected from it.
+    public release(database: string, settings: LintConfig = getSettings()) {
+        const drop = withConfig(settings, () => cleanupDatabase(database)).finally(() => {
+            this.drops.delete(drop)
+        })
+        this.drops.add(drop)
+    }
+
+    /// Drops all warm databases, e.g. after the configuration changed.
+    public async clear() {
+        const warm = [...this.warm.values()]
+        this.warm.clear()
+        for (const { settings, ready } of warm) {
+            for (const database of await Promise.all(ready)) {
+                if (database) {
+                    this.release(database.clientConfig.database!, settings)
+                }
+            }
+        }
+    }
+
+    /// Drops all warm databases and waits for all pending drops.
+    public async dispose() {
+        await this.clear()
+        await Promise.all(this.drops)
+    }
+}
+
+/// The version of the `@template` of `templateStatement`, or `null` without one.
+async function getCurrentTemplateVersion(templateStatement?: Statement): Promise<string | null> {
+    const template = templateStatement?.template
+    return template ? await getTemplateVersion(await getMaintenanceClient(), template) : null
+}
+
+/// The version of `template` for `acquire`, on a connection of its own, as queries on the maintenance connection wait
+/// behind the pool's background `CREATE`/`DROP DATABASE`.
+async function readTemplateVersion(template: string): Promise<string | null> {
+    const client = await connectWithConfig(await getConnectionConfig())
+    try {
+        return await getTemplateVersion(client, template)
+    } finally {
+        await client.end()
+    }
+}
+
+/// The version is taken first, so that a change of the template while cloning it makes the clone look stale, not current.
+async function createWarmDatabase(templateStatement?: Statement): Promise<WarmDatabase> {
+    const templateVersion = await getCurrentTemplateVersion(templateStatement)
+    return { clientConfig: await createTempDatabase(templateStatement), templateVersion }
+}
+
+let _pool: DatabasePool | null = null
+
+export function getDatabasePool(): DatabasePool {
+    _pool ??= new DatabasePool()
+    return _pool
+}
+
+export async function disposeDatabasePool() {
+    await _pool?.dispose()
+    _pool = null
+}
@@ -0,0 +1,133 @@
+import { DatabaseError } from 'pg'
+import { Statement } from './splitIntoStatements'
+
+const IDENTIFIER: string = '(?:"(?:[^"]|"")+"|[\\w$]+)'
+
+const CREATE_OBJECT_REGEX: RegExp = new RegExp(
+    '^\\s*CREATE\\s+(?:OR\\s+REPLACE\\s+)?'
+    + '(?:(?:GLOBAL|LOCAL|TEMP|TEMPORARY|UNLOGGED|MATERIALIZED|RECURSIVE|UNIQUE|TRUSTED|PROCEDURAL)\\s+)*'
+    + '(TABLE|VIEW|FUNCTION|PROCEDURE|TYPE|DOMAIN|SCHEMA|SEQUENCE|INDEX|EXTENSION|ROLE|AGGREGATE|COLLATION)\\s+'
+    + '(?:CONCURRENTLY\\s+)?(?:IF\\s+NOT\\s+EXISTS\\s+)?'
+    + `(${IDENTIFIER}(?:\\s*\\.\\s*${IDENTIFIER})*)`,
+    'i',
+)
+
+const ALTER_TABLE_REGEX: RegExp = new RegExp(
+    `^\\s*ALTER\\s+TABLE\\s+(?:IF\\s+EXISTS\\s+)?(?:ONLY\\s+)?(${IDENTIFIER}(?:\\s*\\.\\s*${IDENTIFIER})*)`,
+    'i',
+)
+
+/// SQLSTATEs raised when a statement references an object that does not exist.
+const UNDEFINED_OBJECT_CODES: string[] = [
+    '3F000', // invalid_schema_name
+    '42P01', // undefined_table
+    '42703', // undefined_column
+    '42704', // undefined_object
+    '42883', // undefined_function
+]
+
+const MISSING_NAME_REGEX: RegExp = /(?:function|procedure|operator)\s+([^\s(]+)\(|"([^"]+)"/i
+
+/// A possibly schema-qualified name, folded the way PostgreSQL would fold it.
+export interface QualifiedName {
+    schema: string | null
+    name: string
+}
+
+/// An object that a `CREATE` statement creates, e.g. `{ kind: 'TABLE', schema: 'app', name: 'Users' }`.
+export interface CreatedObject extends QualifiedName {
+    kind: string
+}
+
+function foldIdentifier(identifier: string): string {
+    if (identifier.startsWith('"')) {
+        return identifier.slice(1, -1).replace(/""/g, '"')
+    }
+    return identifier.toLowerCase()
+}
+
+/// Normalizes a (possibly qualified, possibly quoted) identifier the way PostgreSQL would fold it,
+/// e.g. `app."Users"` => `app`, `Users`, `app.Users` => `app`, `users`.
+function normalizeName(name: string): QualifiedName {
+    const parts = name.match(new RegExp(IDENTIFIER, 'g')) ?? [name]
+    return {
+        schema: parts.length > 1 ? foldIdentifier(parts[parts.length - 2]) : null,
+        name: foldIdentifier(parts[parts.length - 1]),
+    }
+}
+
+export function getCreatedObject(sql: string): CreatedObject | null {
+    const match = sql.match(CREATE_OBJECT_REGEX)
+    return match ? { kind: match[1].toUpperCase(), ...normalizeName(match[2]) } : null
+}
+
+/// The argument declarations of a `CREATE FUNCTION` or `CREATE PROCEDURE`, split at top-level commas,
+/// e.g. `['a int', 'OUT b numeric(10, 2) DEFAULT 0']`, or `null` if the statement creates something else.
+export function getRoutineArguments(sql: string): string[] | null {
+    const match = sql.match(CREATE_OBJECT_REGEX)
+    const kind = match?.[1].toUpperCase()
+    if (!match || (kind !== 'FUNCTION' && kind !== 'PROCEDURE')) {
+        return null
+    }
+    let i = match.index! + match[0].length
+    while (/\s/.test(sql[i] ?? '')) {
+        i++
+    }
+    if (sql[i] !== '(') {
+        return null
+    }
+    const declarations: string[] = []
+    let start = i + 1
+    let depth = 0
+    for (i = start; i < sql.length; i++) {
+        const char = sql[i]
+        if (char === "'" || char === '"') {
+            // doubled quotes inside are just two quoted runs in a row
+            const end = sql.indexOf(char, i + 1)
+            if (end === -1) {
+                return null
+            }
+            i = end
+        } else if (char === '(') {
+            depth++
+        } else if (char === ')' && depth > 0) {
+            depth--
+        } else if ((char === ',' && depth === 0) || char === ')') {
+            declarations.push(sql.substring(start, i).trim())
+            start = i + 1
+            if (char === ')') {
+                return declarations.length === 1 && !declarations[0] ? [] : declarations
+            }
+        }
+    }
+    return null
+}
+
+export function getCreatedObjectName(sql: string): string | null {
+    return getCreatedObject(sql)?.name ?? null
+}
+
+/// The table that an `ALTER TABLE` statement alters.
+export function getAlteredTable(sql: string): QualifiedName | null {
+    const match = sql.match(ALTER_TABLE_REGEX)
+    return match ? normalizeName(match[1]) : null
+}
+
+/// If `error` reports a missing object that one of the earlier `failed` statements
+/// would have created, returns that statement, so the failure can be labeled as dependent.
+export function findFailedDependency(error: any, failed: Statement[]): Statement | undefined {
+    if (!(error instanceof DatabaseError) || !error.code || !UNDEFINED_OBJECT_CODES.includes(error.code)) {
+        return undefined
+    }
+    const match = error.message.match(MISSING_NAME_REGEX)
+    const missing = match?.[1] ?? match?.[2]
+    if (!missing) {
+        return undefined
+    }
+    // Names in error messages are already folded, but may be qualified, e.g. `relation "app.users" does not exist`.
+    const missingName = missing.split('.').pop()!.replace(/^"|"$/g, '')
+    return failed.find(statement => {
+        const created = statement.sql ? getCreatedObjectName(statement.sql) : null
+        return created !== null && created === missingName
+    })
+}
@@ -0,0 +1,40 @@
+import { ProfiledLine } from './profiler'
+import { Diagnostic } from './types'
+
+/// Where a lint cycle writes its diagnostics, keyed by file system path.
+/// Structurally the `get`/`set` part of `vscode.DiagnosticCollection`, but keyed by path instead of URI.
+export interface DiagnosticSink {
+    get(path: string): readonly Diagnostic[] | undefined
+    set(path: string, diagnostics: readonly Diagnostic[] | undefined): void
+    /// Receives the profile of the PL/pgSQL routines created in a file (`profiler`), if the sink keeps them.
+    addProfile?(path: string, lines: readonly ProfiledLine[]): void
+}
+
+/// Collects the diagnostics of one lint cycle, so that they can be published all at once
+/// when it finishes, or discarded if it was cancelled, instead of overwriting newer results.
+export class DiagnosticBuffer implements DiagnosticSink {
+    private entries: Map<string, readonly Diagnostic[]> = new Map()
+    private profiles: Map<string, readonly ProfiledLine[]> = new Map()
+
+    public get(path: string): readonly Diagnostic[] | undefined {
+        return this.entries.get(path)
+    }
+
+    public set(path: string, diagnostics: readonly Diagnostic[] | undefined) {
+        this.entries.set(path, diagnostics ?? [])
+    }
+
+    /// Diagnostics by path, in the order the paths were first set.
+    public getAll(): Map<string, readonly Diagnostic[]> {
+        return new Map(this.entries)
+    }
+
+    public addProfile(path: string, lines: readonly ProfiledLine[]) {
+        this.profiles.set(path, [...this.profiles.get(path) ?? [], ...lines])
+    }
+
+    /// The profiled lines by path (see `profiler`), empty unless the profiler was on.
+    public getProfiles(): Map<string, readonly ProfiledLine[]> {
+        return new Map(this.profiles)
+    }
+}
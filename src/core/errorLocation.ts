@@ -0,0 +1,218 @@
+import { getAlteredTable, getCreatedObject, QualifiedName } from './dependentFailures'
+import { getSourceRange } from './plpgsqlCheckFunction'
+import { PositionCache, Statement } from './splitIntoStatements'
+import { DiagnosticRelatedInformation, Range } from './types'
+
+/// The fields of a `pg` `DatabaseError` that say where it is. Other errors (e.g. plpgsql_check findings) have some of them.
+export interface ErrorFields {
+    message: string
+    position?: string | number
+    internalPosition?: string
+    internalQuery?: string
+    schema?: string
+    table?: string
+    column?: string
+    constraint?: string
+    dataType?: string
+}
+
+/// A part of `Statement.sql`, by offsets.
+export interface SqlSpan {
+    start: number
+    end: number
+}
+
+/// The token at the position where the error is in a statement that ran before the failing one,
+/// e.g. in the body of the function that the failing statement called.
+export interface InternalLocation {
+    statement: Statement
+    range: Range
+}
+
+const QUOTED_NAME_REGEX: RegExp = /operator does not exist: \w+\s+([^\s]+)|column "?((?:[^"]+))"?|(?:.*)"([^"]+)"(?!.*")/
+const TOKEN_END_REGEX: RegExp = /[^a-z0-9_"]|$/i
+const CONSTRAINT_KEYWORD_REGEX: RegExp = /\bCONSTRAINT\s+/gi
+const TABLE_KINDS: string[] = ['TABLE', 'VIEW']
+const TYPE_KINDS: string[] = ['TYPE', 'DOMAIN', 'TABLE']
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/// The token starting at `start`, at least one character long.
+function getToken(sql: string, start: number): SqlSpan {
+    const length = sql.substring(start).match(TOKEN_END_REGEX)!.index!
+    return { start, end: start + Math.max(1, length) }
+}
+
+/// Finds the first mention of the identifier `name` (as PostgreSQL folds it) in `sql` at or after `from`:
+/// quoted, or unquoted if folding gives `name`.
+function findName(sql: string, name: string, from: number = 0): SqlSpan | null {
+    const patterns = [new RegExp(escapeRegExp(`"${name.replace(/"/g, '""')}"`), 'g')]
+    if (/^[a-z_][a-z0-9_$]*$/.test(name)) {
+        patterns.push(new RegExp(`(?<![\\w$"])${escapeRegExp(name)}(?![\\w$"])`, 'gi'))
+    }
+    let found: SqlSpan | null = null
+    for (const pattern of patterns) {
+        pattern.lastIndex = from
+        const match = pattern.exec(sql)
+        if (match && (!found || match.index < found.start)) {
+            found = { start: match.index, end: match.index + match[0].length }
+        }
+    }
+    return found
+}
+
+/// Finds the `CONSTRAINT name` clause that names `name` in `sql`.
+function findConstraint(sql: string, name: string): SqlSpan | null {
+    for (const keyword of sql.matchAll(CONSTRAINT_KEYWORD_REGEX)) {
+        const start = keyword.index! + keyword[0].length
+        const span = findName(sql, name, start)
+        if (span?.start === start) {
+            return span
+        }
+    }
+    return null
+}
+
+/// The name of the object in the error message, e.g. `foo` in `relation "foo" does not exist`.
+function getQuotedName(message: string): string | null {
+    const match = message.match(QUOTED_NAME_REGEX)
+    return match?.[1] ?? match?.[2] ?? match?.[3] ?? null
+}
+
+function matchesName(object: QualifiedName, schema: string | undefined, name: string): boolean {
+    return object.name === name && (!object.schema || !schema || object.schema === schema)
+}
+
+/// Where the error is in `sql`:
+/// - at `internalPosition` in `internalQuery`, if the statement contains that query;
+/// - else at the first object named by the error (`column`, `constraint`, `table`, `dataType`, then the name quoted
+///   in the message) that the statement mentions at or after `position`;
+/// - else at the token at `position`.
+export function locateError(error: ErrorFields, sql: string): SqlSpan | null {
+    const internal = findInternalPosition(error, sql)
+    if (internal) {
+        return internal
+    }
+    const position = error.position ? Number(error.position) - 1 : NaN
+    const from = isNaN(position) ? 0 : position
+    const { column, constraint, table, dataType, message } = error
+    for (const name of [column, constraint, table, dataType]) {
+        const span = name ? findName(sql, name, from) : null
+        if (span) {
+            return span
+        }
+    }
+    const quoted = getQuotedName(message)
+    if (quoted) {
+        const rest = sql.substring(from)
+        const quotedOffset = Math.max(rest.indexOf(quoted), rest.toLowerCase().indexOf(quoted))
+        if (quotedOffset > -1) {
+            return { start: from + quotedOffset, end: from + quotedOffset + Math.max(1, quoted.length) }
+        }
+    }
+    return isNaN(position) ? null : getToken(sql, position)
+}
+
+/// The token at `internalPosition` in `internalQuery`, if `sql` contains that query.
+function findInternalPosition({ internalQuery, internalPosition }: ErrorFields, sql: string): SqlSpan | null {
+    if (!internalQuery || !internalPosition) {
+        return null
+    }
+    const start = sql.indexOf(internalQuery)
+    return start === -1 ? null : getToken(sql, start + Number(internalPosition) - 1)
+}
+
+/// For an error in a query that the failing statement didn't contain itself, e.g. in the body of a function it called,
+/// finds the statement (latest first) that contains the query, and the token at `internalPosition` in it.
+export function locateInternalError(error: ErrorFields, statements: Statement[], positions: PositionCache): InternalLocation | null {
+    for (const statement of [...statements].reverse()) {
+        const span = statement.sql ? findInternalPosition(error, statement.sql) : null
+        if (span) {
+            return { statement, range: getSourceRange(statement, span.start, span.end, positions) }
+        }
+    }
+    return null
+}
+
+/// Links the objects named by the error (`schema`, `table`, `column`, `constraint`, `dataType`) to where
+/// `statements` (latest first) create them: the name in the `CREATE` statement, the column or constraint definition
+/// in the `CREATE TABLE` or an `ALTER TABLE` of its table, or the `CREATE INDEX` of a unique index.
+export function getObjectLinks({ schema, table, column, constraint, dataType }: ErrorFields, statements: Statement[], positions: PositionCache): DiagnosticRelatedInformation[] {
+    const latestFirst = statements.filter(statement => statement.sql).reverse()
+    const links: DiagnosticRelatedInformation[] = []
+    const link = (statement: Statement, span: SqlSpan, message: string) => {
+        const { path } = statement.location
+        links.push(new DiagnosticRelatedInformation(path, getSourceRange(statement, span.start, span.end, positions), message))
+    }
+    // the statement creating the object and the name in it
+    const findCreated = (kinds: string[], name: string, objectSchema: string | undefined): [Statement, SqlSpan] | null => {
+        for (const statement of latestFirst) {
+            const created = getCreatedObject(statement.sql!)
+            if (created && kinds.includes(created.kind) && matchesName(created, objectSchema, name)) {
+                const span = findName(statement.sql!, name)
+                return span ? [statement, span] : null
+            }
+        }
+        return null
+    }
+
+    const tableName = table ? `${schema ? `${schema}.` : ''}${table}` : null
+    let constraintLinked = false
+    if (table) {
+        const created = findCreated(TABLE_KINDS, table, schema)
+        if (created) {
+            link(...created, `table ${tableName}`)
+        }
+        // the CREATE TABLE and the ALTER TABLEs of the table, for its columns and constraints
+        const definitions: [Statement, number][] = []
+        for (const statement of latestFirst) {
+            const sql = statement.sql!
+            const created = getCreatedObject(sql)
+            const altered = getAlteredTable(sql)
+            const defined = created && TABLE_KINDS.includes(created.kind) ? created : altered
+            if (defined && matchesName(defined, schema, table)) {
+                definitions.push([statement, findName(sql, table)?.end ?? 0])
+            }
+        }
+        if (column) {
+            for (const [statement, after] of definitions) {
+                const span = findName(statement.sql!, column, after)
+                if (span) {
+                    link(statement, span, `column ${column} of ${tableName}`)
+                    break
+                }
+            }
+        }
+        if (constraint) {
+            for (const [statement] of definitions) {
+                const span = findConstraint(statement.sql!, constraint)
+                if (span) {
+                    link(statement, span, `constraint ${constraint} of ${tableName}`)
+                    constraintLinked = true
+                    break
+                }
+            }
+        }
+    }
+    if (constraint && !constraintLinked) {
+        const created = findCreated(['INDEX'], constraint, schema)
+        if (created) {
+            link(...created, `index ${constraint}`)
+        }
+    }
+    if (dataType) {
+        const created = findCreated(TYPE_KINDS, dataType, schema)
+        if (created) {
+            link(...created, `type ${dataType}`)
+        }
+    }
+    if (schema && !table && !dataType) {
+        const created = findCreated(['SCHEMA'], schema, undefined)
+        if (created) {
+            link(...created, `schema ${schema}`)
+        }
+    }
+    return links
+}
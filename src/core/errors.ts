@@ -0,0 +1,291 @@
+import { Location, PositionCache, Statement } from './splitIntoStatements'
+import { CheckCode, SOURCE } from './config'
+import { getConfig, getLog } from './host'
+import { Diagnostic, DiagnosticDetails, DiagnosticRelatedInformation, DiagnosticSeverity, DiagnosticTag, Range } from './types'
+import { DatabaseError } from 'pg'
+import { DiagnosticSink } from './diagnosticBuffer'
+import { getObjectLinks, locateError, locateInternalError } from './errorLocation'
+import { getSourceRange } from './plpgsqlCheckFunction'
+
+function attachMessageToDatabaseError(error: any): any {
+    if (error instanceof DatabaseError) {
+        return {
+            ...error,
+            isDatabaseError: true,
+            message: error.message,
+        }
+    }
+    return error
+}
+
+export class GeneralError extends Error {
+    public severity: DiagnosticSeverity
+
+    constructor({
+        message, cause, severity,
+    }: {
+        message: string
+        cause?: unknown
+        severity?: DiagnosticSeverity
+    }) {
+        super(message, { cause })
+        this.severity = severity ?? DiagnosticSeverity.Error
+    }
+
+    public handleShouldContinue(collection: DiagnosticSink, positions: PositionCache): boolean {
+        const channel = getLog()
+        channel.appendLine(`ERROR: ${JSON.stringify(this, null, 4)}`)
+        return true
+    }
+
+    toJSON(): object {
+        const cause = attachMessageToDatabaseError(super.cause)
+        const severity = DiagnosticSeverity[this.severity]
+        return {
+            severity,
+            message: this.message,
+            cause,
+        }
+    }
+}
+
+export class ConfigError extends GeneralError {
+    public key: string
+    public value: any
+
+    constructor({
+        message, key, value, cause, severity,
+    }: {
+        message: string
+        key: string
+        value: any
+        cause?: unknown
+        severity?: DiagnosticSeverity
+    }) {
+        super({ message: `${message} in config ${key} = ${value}`, cause, severity })
+        this.key = key
+        this.value = value
+    }
+
+    toJSON(): object {
+        return {
+            ...super.toJSON(),
+            key: this.key,
+            value: this.value,
+        }
+    }
+}
+
+export class StatementError extends GeneralError {
+    public statement: Statement
+    /// The database error that caused the statement to be invalid.
+    public error: Error
+    /// An earlier failed statement that this failure is a consequence of (`continue` error mode only).
+    public dependsOn?: Statement
+    /// The `@expect-error` expectation that the failure didn't match, e.g. `error 23505`.
+    public expected?: string
+    /// The statements of the file that ran before it, where the objects and queries named by the error are looked up.
+    public earlier: Statement[]
+
+    constructor({
+        statement, message, error, severity, dependsOn, expected, earlier,
+    }: {
+        statement: Statement
+        message: string
+        error: Error
+        severity?: DiagnosticSeverity
+        dependsOn?: Statement
+        expected?: string
+        earlier?: Statement[]
+    }) {
+        super({
+            message,
+            cause: error,
+            severity,
+        })
+        this.statement = statement
+        this.error = error
+        this.dependsOn = dependsOn
+        this.expected = expected
+        this.earlier = earlier ?? []
+    }
+
+    toJSON(): object {
+        const error = attachMessageToDatabaseError(this.error)
+        return {
+            ...super.toJSON(),
+            error,
+            statement: this.statement,
+            dependsOn: this.dependsOn,
+        }
+    }
+
+    public handleShouldContinue(collection: DiagnosticSink, positions: PositionCache): boolean {
+        super.handleShouldContinue(collection, positions)
+        const channel = getLog()
+        const { warnWholeStatement, errorMode } = getConfig()
+        const shouldContinue = errorMode === 'continue'
+        const error = this.error as DatabaseError
+        const { dependsOn, expected } = this
+        const errorMessage = expected
+            ? `expected ${expected}, got ${error.code ? `error ${error.code}` : 'another error'}: ${error.message}`
+            : error.message
+        const message = dependsOn
+            ? `Depends on earlier failed statement (line ${dependsOn.location.range.start.line + 1}): ${errorMessage}`
+            : errorMessage
+        const { hint, code, detail, where } = error
+        let description = message
+        if (detail) {
+            description += `; Detail: ${detail}`
+        }
+        if (where) {
+            description += `; Context: ${where}`
+        }
+        const messageWithHint = hint ? `${description}; Hint: ${hint}` : description
+        const severity = dependsOn ? DiagnosticSeverity.Warning : DiagnosticSeverity.Error
+        const dependsOnRelated = dependsOn
+            ? [new DiagnosticRelatedInformation(dependsOn.location.path, dependsOn.location.range, 'earlier failed statement')]
+            : []
+        const {
+            statement,
+            statement: {
+                location,
+                location: {
+                    path,
+                    range,
+                }
+            }
+        } = this
+        const sql = statement.sql!
+        const details: DiagnosticDetails = {
+            hint: hint ?? undefined,
+            detail: detail ?? undefined,
+            context: where ?? undefined,
+            includeChain: statement.includeChain.map(l => new DiagnosticRelatedInformation(l.path, l.range, 'included here')),
+            unreachable: [],
+        }
+
+        let includedDiagnostic: Diagnostic | null = null
+        const { includedAt } = statement
+        if (includedAt) {
+            includedDiagnostic = new Diagnostic(includedAt.range, `In included file: ${message} `, severity)
+            includedDiagnostic.source = SOURCE
+            includedDiagnostic.code = code
+            includedDiagnostic.details = { echo: true }
+
+            const related = new DiagnosticRelatedInformation(path, range, message)
+            includedDiagnostic.relatedInformation = [related]
+        }
+
+        let statementDiagnostic = new Diagnostic(range, `In this statement: ${message}`, DiagnosticSeverity.Warning)
+        statementDiagnostic.source = SOURCE
+        statementDiagnostic.code = code
+        statementDiagnostic.details = { echo: true }
+
+        if (!shouldContinue) {
+            const sourceUnreachable = buildUnreachable(location, statementDiagnostic, positions)
+            details.unreachable!.push(new DiagnosticRelatedInformation(path, sourceUnreachable.range, sourceUnreachable.message))
+            pushDiagnostics(collection, path, [sourceUnreachable])
+        }
+
+        // an error in a query that the statement doesn't contain, e.g. in the body of a function it called
+        const internal = error.internalQuery && !sql.includes(error.internalQuery) ? locateInternalError(error, this.earlier, positions) : null
+        const related = [
+            ...dependsOnRelated,
+            ...(internal ? [new DiagnosticRelatedInformation(internal.statement.location.path, internal.range, where ?? 'failed here')] : []),
+            ...getObjectLinks(error, this.earlier, positions),
+        ]
+        if (internal) {
+            let internalDiagnostic = new Diagnostic(internal.range, `Failed when called: ${messageWithHint}`, severity)
+            internalDiagnostic.source = SOURCE
+            internalDiagnostic.code = code
+            internalDiagnostic.relatedInformation = [new DiagnosticRelatedInformation(path, range, 'called here')]
+            internalDiagnostic.details = { echo: true }
+            pushDiagnostics(collection, internal.statement.location.path, [internalDiagnostic])
+        }
+
+        const span = locateError(error, sql)
+        if (span) {
+            const innerRange = getSourceRange(statement, span.start, span.end, positions)
+            let innerDiagnostic = new Diagnostic(innerRange, messageWithHint, severity)
+            innerDiagnostic.source = SOURCE
+            innerDiagnostic.code = code
+            innerDiagnostic.relatedInformation = related
+            innerDiagnostic.details = { ...details, statement: new DiagnosticRelatedInformation(path, range, 'statement') }
+
+            pushDiagnostics(collection, path, [innerDiagnostic])
+            if (warnWholeStatement) {
+                pushDiagnostics(collection, path, [statementDiagnostic])
+            }
+
+            if (includedAt && includedDiagnostic) {
+                includedDiagnostic.relatedInformation = [new DiagnosticRelatedInformation(path, innerRange, message)]
+
+                channel.appendLine(`includeDiagnostic: ${JSON.stringify(includedDiagnostic)} `)
+
+                pushDiagnostics(collection, includedAt.path, [includedDiagnostic])
+                if (!shouldContinue) {
+                    const includedUnreachable = buildUnreachable(includedAt, includedDiagnostic, positions)
+                    details.unreachable!.push(new DiagnosticRelatedInformation(includedAt.path, includedUnreachable.range, includedUnreachable.message))
+                    pushDiagnostics(collection, includedAt.path, [includedUnreachable])
+                }
+            }
+
+            return shouldContinue
+        }
+
+        statementDiagnostic.severity = severity
+        statementDiagnostic.message = messageWithHint
+        statementDiagnostic.relatedInformation = related
+        statementDiagnostic.details = details
+        pushDiagnostics(collection, path, [statementDiagnostic])
+
+        if (statement.includedAt && includedDiagnostic) {
+            pushDiagnostics(collection, statement.includedAt.path, [includedDiagnostic])
+        }
+
+        // channel.appendLine(`ERROR @${JSON.stringify(statement.location)}: ${JSON.stringify(error)}`)
+        return shouldContinue
+    }
+}
+
+export function handleErrorShouldContinue(error: any, collection: DiagnosticSink, positions: PositionCache): boolean {
+    if (error instanceof GeneralError) {
+        return error.handleShouldContinue(collection, positions)
+    }
+    const unhandled = new GeneralError({
+        message: 'error not handled',
+        cause: error,
+    })
+    unhandled.handleShouldContinue(collection, positions)
+    return false
+}
+
+export function handleError(error: any, collection: DiagnosticSink, positions: PositionCache): void {
+    handleErrorShouldContinue(error, collection, positions)
+}
+
+export function pushDiagnostics(collection: DiagnosticSink, path: string, diagnostics: Diagnostic[]) {
+    const existing = collection.get(path) ?? []
+    collection.set(path, [...existing, ...diagnostics])
+}
+
+function buildUnreachable(location: Location, reason: Diagnostic, positions: PositionCache): Diagnostic {
+    const { path, startOffset, length } = location
+    const unreachableOffset = startOffset + length
+    const unreachableStart = positions.getPosition(path, unreachableOffset)
+    const unreachableEnd = positions.getLastPositionInFile(path)
+    const unreachableRange = new Range(unreachableStart, unreachableEnd)
+    let unreachable = new Diagnostic(
+        unreachableRange,
+        'unreachable statements',
+        DiagnosticSeverity.Hint,
+    )
+    const related = new DiagnosticRelatedInformation(path, unreachableRange, reason.message)
+    unreachable.relatedInformation = [related]
+    unreachable.source = SOURCE
+    unreachable.code = CheckCode.unreachable
+    unreachable.tags = [DiagnosticTag.Unnecessary]
+    unreachable.details = { echo: true }
+    return unreachable
+}
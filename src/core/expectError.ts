@@ -0,0 +1,50 @@
+import { Location } from './splitIntoStatements'
+
+const SQLSTATE_REGEX: RegExp = /^[0-9A-Z]{5}$/
+const REGEX_LITERAL_REGEX: RegExp = /^\/(.*)\/([a-z]*)$/
+
+/// An `@expect-error` directive: the statement after it must fail, with the SQLSTATE `code`
+/// or a message matching `pattern` if given.
+export interface ExpectedError {
+    /// The expectation as written after `@expect-error`, e.g. `23505` or `/duplicate key/`, empty for any error.
+    text: string
+    location: Location
+    code?: string
+    pattern?: RegExp
+}
+
+/// Parses the text after `@expect-error`: a SQLSTATE, a `/regex/flags`, or text the message must contain (ignoring case).
+/// throws
+export function parseExpectedError(text: string, location: Location): ExpectedError {
+    const trimmed = text.trim()
+    if (!trimmed) {
+        return { text: trimmed, location }
+    }
+    if (SQLSTATE_REGEX.test(trimmed)) {
+        return { text: trimmed, location, code: trimmed }
+    }
+    const regex = trimmed.match(REGEX_LITERAL_REGEX)
+    if (regex) {
+        try {
+            return { text: trimmed, location, pattern: new RegExp(regex[1], regex[2]) }
+        } catch (error: any) {
+            throw new Error(`invalid @expect-error pattern: ${error.message}`)
+        }
+    }
+    return { text: trimmed, location, pattern: new RegExp(trimmed.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i') }
+}
+
+export function matchesExpectedError(expected: ExpectedError, error: { code?: string, message?: string }): boolean {
+    if (expected.code) {
+        return error.code === expected.code
+    }
+    return !expected.pattern || expected.pattern.test(error.message ?? '')
+}
+
+/// Describes the expectation for messages, e.g. `error 23505` or `an error matching /duplicate key/`.
+export function describeExpectedError({ text, code }: ExpectedError): string {
+    if (code) {
+        return `error ${code}`
+    }
+    return text ? `an error matching ${text}` : 'an error'
+}
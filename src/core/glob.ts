@@ -0,0 +1,117 @@
+import { readdir } from 'fs/promises'
+import * as path from 'path'
+
+const GLOB_CHARS_REGEX: RegExp = /[*?[]/
+
+export function isGlob(pattern: string): boolean {
+    return GLOB_CHARS_REGEX.test(pattern)
+}
+
+/// Converts one path segment of a glob to a regex: `*` matches any characters except `/`,
+/// `?` one character, and `[...]` a character class.
+function segmentToRegex(segment: string): RegExp {
+    let source = ''
+    for (let i = 0; i < segment.length; i++) {
+        const char = segment[i]
+        if (char === '*') {
+            source += '[^/]*'
+        } else if (char === '?') {
+            source += '[^/]'
+        } else if (char === '[') {
+            const end = segment.indexOf(']', i + 1)
+            if (end === -1) {
+                source += '\\['
+            } else {
+                source += `[${segment.slice(i + 1, end).replace(/^!/, '^')}]`
+                i = end
+            }
+        } else {
+            source += char.replace(/[.+^${}()|\\]/g, '\\$&')
+        }
+    }
+    return new RegExp(`^${source}$`)
+}
+
+/// Returns the files matching `pattern`, relative patterns being resolved against `cwd`.
+/// Supports `*`, `?`, `[...]` within a path segment and `**` as a whole segment (any number of directories).
+/// Dot files and directories only match segments that start with a dot themselves.
+/// Results are absolute and sorted, so runs are reproducible.
+export async function expandGlob(pattern: string, cwd: string): Promise<string[]> {
+    const absolute = path.resolve(cwd, pattern).split(path.sep).join('/')
+    const segments = absolute.split('/')
+    const firstGlob = segments.findIndex(isGlob)
+    if (firstGlob === -1) {
+        return [path.normalize(absolute)]
+    }
+    const base = segments.slice(0, firstGlob).join('/') || '/'
+    const matches: Set<string> = new Set()
+    await walk(base, segments.slice(firstGlob), matches)
+    return [...matches].sort()
+}
+
+async function walk(directory: string, segments: string[], matches: Set<string>) {
+    const [segment, ...rest] = segments
+    let entries
+    try {
+        entries = await readdir(directory, { withFileTypes: true })
+    } catch {
+        return
+    }
+
+    if (segment === '**') {
+        // `**` matching no directory at all; a trailing `**` matches every file below
+        await walk(directory, rest.length > 0 ? rest : ['*'], matches)
+        for (const entry of entries) {
+            if (entry.isDirectory() && !entry.name.startsWith('.')) {
+                await walk(path.join(directory, entry.name), segments, matches)
+            }
+        }
+        return
+    }
+
+    const regex = segmentToRegex(segment)
+    for (const entry of entries) {
+        if (entry.name.startsWith('.') && !segment.startsWith('.')) {
+            continue
+        }
+        if (!regex.test(entry.name)) {
+            continue
+        }
+        const entryPath = path.join(directory, entry.name)
+        if (rest.length === 0) {
+            if (entry.isFile()) {
+                matches.add(entryPath)
+            }
+        } else if (entry.isDirectory()) {
+            await walk(entryPath, rest, matches)
+        }
+    }
+}
+
+function matchSegments(segments: string[], parts: string[]): boolean {
+    if (segments.length === 0) {
+        return parts.length === 0
+    }
+    const [segment, ...rest] = segments
+    if (segment === '**') {
+        // like in `expandGlob`, `**` doesn't match dot directories; a trailing `**` matches every file below
+        const isVisible = (part: string) => !part.startsWith('.')
+        if (rest.length === 0) {
+            return parts.length > 0 && parts.every(isVisible)
+        }
+        return parts.some((_, i) => parts.slice(0, i).every(isVisible) && matchSegments(rest, parts.slice(i)))
+    }
+    return parts.length > 0
+        && (!parts[0].startsWith('.') || segment.startsWith('.'))
+        && segmentToRegex(segment).test(parts[0])
+        && matchSegments(rest, parts.slice(1))
+}
+
+/// Whether the file `filePath` matches `pattern`, with the same rules as `expandGlob`.
+/// A pattern ending with `/` matches every file in the directory and below.
+export function matchesGlob(filePath: string, pattern: string, cwd: string): boolean {
+    const directoryPattern = /[\\/]$/.test(pattern) ? `${pattern}**` : pattern
+    const segments = path.resolve(cwd, directoryPattern).split(path.sep).join('/').split('/')
+    const parts = path.resolve(filePath).split(path.sep).join('/').split('/')
+    return matchSegments(segments, parts)
+}
@@ -0,0 +1,116 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import { LintConfig } from './config'
+import { resolveProfile } from './profiles'
+
+/// Where log lines go, e.g. a `vscode.OutputChannel` or stderr.
+export interface Log {
+    appendLine(value: string): void
+    clear?(): void
+}
+
+export type MessageLevel = 'error' | 'warning' | 'info'
+
+/// What the linter needs from the program embedding it (the extension or the CLI).
+export interface LintHost {
+    /// Called at the start of each operation, so the configuration may change in between.
+    /// Outside of `withConfig`, this is the configuration used.
+    getConfig(): LintConfig
+    /// The log used outside of log sections.
+    log: Log
+    /// Shows a message to the user.
+    notify(level: MessageLevel, message: string, error?: any): void
+    /// Returns the stored password of `connection` (see `getConnectionKey`), if any.
+    getPassword?(connection: string): Promise<string | undefined>
+}
+
+/// Collects the log lines of one lint run and appends them to the log as one section
+/// when the run finishes, so that concurrent runs don't interleave. Lines logged afterwards
+/// (e.g. by background cleanup started during the run) are appended directly, tagged with the title.
+class LogSection implements Log {
+    private title: string
+    private lines: string[] = []
+    private closed: boolean = false
+
+    constructor(title: string) {
+        this.title = title
+    }
+
+    public appendLine(value: string) {
+        if (this.closed) {
+            getHost().log.appendLine(`[${this.title}] ${value}`)
+        } else {
+            this.lines.push(value)
+        }
+    }
+
+    public close() {
+        const { log } = getHost()
+        log.appendLine(`--- ${this.title} ---`)
+        for (const line of this.lines) {
+            log.appendLine(line)
+        }
+        this.lines = []
+        this.closed = true
+    }
+}
+
+let _host: LintHost | null = null
+const _logSections: AsyncLocalStorage<LogSection> = new AsyncLocalStorage()
+const _configs: AsyncLocalStorage<LintConfig> = new AsyncLocalStorage()
+let _activeLogSections: number = 0
+
+export function setHost(host: LintHost) {
+    _host = host
+}
+
+function getHost(): LintHost {
+    if (!_host) {
+        throw new Error('pglint core used before setHost()')
+    }
+    return _host
+}
+
+/// Returns the settings of the current operation (see `withConfig`), before applying their profile.
+export function getSettings(): LintConfig {
+    return _configs.getStore() ?? getHost().getConfig()
+}
+
+/// Returns the configuration of the current operation, with the selected profile applied.
+export function getConfig(): LintConfig {
+    return resolveProfile(getSettings())
+}
+
+/// Runs `run` (and everything it starts) with `settings` instead of the host's configuration,
+/// e.g. those of the workspace folder of the file being linted.
+export function withConfig<T>(settings: LintConfig, run: () => T): T {
+    return _configs.run(settings, run)
+}
+
+export async function getStoredPassword(connection: string): Promise<string | undefined> {
+    return getHost().getPassword?.(connection)
+}
+
+export function notify(level: MessageLevel, message: string, error?: any) {
+    getHost().notify(level, message, error)
+}
+
+/// Returns the log section of the current lint run, or the host's log outside of a run.
+export function getLog(): Log {
+    return _logSections.getStore() ?? getHost().log
+}
+
+/// Runs `run` with its own log section (see `getLog`).
+/// Like a single lint run used to, clears the log first unless other runs are active.
+export async function withLogSection<T>(title: string, run: () => Promise<T>): Promise<T> {
+    if (_activeLogSections === 0) {
+        getHost().log.clear?.()
+    }
+    _activeLogSections++
+    const section = new LogSection(title)
+    try {
+        return await _logSections.run(section, run)
+    } finally {
+        section.close()
+        _activeLogSections--
+    }
+}
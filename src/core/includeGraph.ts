@@ -0,0 +1,37 @@
+import { getIncludedPaths } from './splitIntoStatements'
+
+/// Which files include which, by file system path, so that saving an included file can re-lint the files including it.
+/// Each file's entry is replaced as a whole when it is updated, so the graph is only as fresh as its last updates.
+export class IncludeGraph {
+    /// The files each file includes, directly or through nested includes.
+    private includes: Map<string, Set<string>> = new Map()
+
+    /// Re-reads the includes of `filePath` from `text`, its contents.
+    public async update(filePath: string, text: string) {
+        this.includes.set(filePath, await getIncludedPaths(filePath, text))
+    }
+
+    public remove(filePath: string) {
+        this.includes.delete(filePath)
+    }
+
+    /// Whether another file includes `filePath` and is linted instead of it. The files of an include cycle include each
+    /// other, so unless a file outside the cycle includes them, the first of them by path is linted as the root.
+    public isIncluded(filePath: string): boolean {
+        const includes = this.includes.get(filePath)
+        for (const [includer, included] of this.includes) {
+            if (includer !== filePath && included.has(filePath) && (!includes?.has(includer) || includer < filePath)) {
+                return true
+            }
+        }
+        return false
+    }
+
+    /// The root files (those not included by another file, see `isIncluded`) that include `filePath`, directly or through nested includes.
+    public getRoots(filePath: string): string[] {
+        return [...this.includes]
+            .filter(([includer, included]) => includer !== filePath && included.has(filePath) && !this.isIncluded(includer))
+            .map(([includer]) => includer)
+            .sort()
+    }
+}
@@ -0,0 +1,24 @@
+/// The editor-independent linter, shared by the extension and the CLI.
+/// Must not import `vscode`; the embedding program supplies config, log and messages via `setHost`.
+export * from './types'
+export * from './config'
+export * from './host'
+export * from './splitIntoStatements'
+export * from './diagnosticBuffer'
+export * from './errors'
+export * from './lint'
+export * from './glob'
+export { validateDatabaseName, quoteDatabaseName } from './validateDatabaseName'
+export { terminateBackend, cancelBackend } from './terminateBackend'
+export { getMaintenanceClient, closeMaintenanceClient } from './maintenanceConnection'
+export { getConnectionConfig, getConnectionKey } from './connectionConfig'
+export { getDatabasePool, disposeDatabasePool } from './databasePool'
+export { dropScratchDatabases } from './scratchDatabase'
+export { dropCheckpoints, cleanupCheckpoints } from './checkpoints'
+export * from './sarif'
+export * from './migrations'
+export * from './managedCluster'
+export * from './includeGraph'
+export * from './expectError'
+export * from './profiles'
+export type { ProfiledLine } from './profiler'
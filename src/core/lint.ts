@@ -0,0 +1,527 @@
+import { readFile } from 'fs/promises'
+import { basename } from 'path'
+import { Client } from 'pg'
+import { CheckCode, SOURCE } from './config'
+import { getConfig, getLog, getSettings, notify, withConfig, withLogSection } from './host'
+import { checkFunction, checkTriggerFunctions, CREATE_EXTENSION_PLPGSQL_CHECK, CREATE_ROUTINE_REGEX, CREATE_TRIGGER_REGEX, findRestoredRoutines, snapshotRoutines, snapshotTriggers, TriggerFunctions } from './plpgsqlCheckFunction'
+import { PositionCache, quotedEqual, splitIntoStatements, Statement, TEMPLATE_DIRECTIVE_ERROR_FIRST } from './splitIntoStatements'
+import { connectScratchDatabase, connectTempDatabase, LintConnection } from './lintConnection'
+import { getNonTransactionalReason, getServerVersionNum } from './nonTransactional'
+import { GeneralError, handleError, pushDiagnostics, StatementError } from './errors'
+import { beginTransaction, TRANSACTION_CONTROL_REGEX, withoutTransaction, withSavepoint } from './savepoint'
+import { findFailedDependency } from './dependentFailures'
+import { Checkpoints, cleanupCheckpoints } from './checkpoints'
+import { getMaintenanceClient } from './maintenanceConnection'
+import { getTemplateVersion } from './templateVersion'
+import { DiagnosticBuffer, DiagnosticSink } from './diagnosticBuffer'
+import { cancelBackend } from './terminateBackend'
+import { getMigrationContext, MigrationContext } from './migrations'
+import { copyFromText } from './copyData'
+import { describeExpectedError, matchesExpectedError } from './expectError'
+import { applySessionSetting } from './sessionSettings'
+import { findProfileDirective } from './profiles'
+import { enableProfiler, getProfiles, ProfiledRoutine } from './profiler'
+import { CancellationToken, Diagnostic, DiagnosticRelatedInformation, DiagnosticSeverity } from './types'
+
+/// Lints `text` (the contents of the root file `filePath`; included files are read from disk)
+/// and adds the diagnostics of every file involved to `collection`, keyed by path.
+/// If `token` is cancelled, the running query is cancelled and linting stops early.
+/// A `-- @profile` directive in `text` selects the profile to lint with.
+export async function lintText(filePath: string, text: string, collection: DiagnosticSink, token?: CancellationToken) {
+    const directive = findProfileDirective(text)
+    if (!directive) {
+        return lintWithConfig(filePath, text, collection, token)
+    }
+    const settings = getSettings()
+    if (!directive.name || !Object.hasOwn(settings.profiles, directive.name)) {
+        collection.set(filePath, [])
+        const positions = new PositionCache()
+        positions.cacheLineStarts(filePath, text)
+        const { range } = positions.getLocationFromLength(filePath, directive.offset, directive.length)
+        const message = directive.name ? `unknown profile: ${directive.name}` : '@profile requires a profile name'
+        const diagnostic = new Diagnostic(range, message, DiagnosticSeverity.Error)
+        diagnostic.source = SOURCE
+        diagnostic.code = CheckCode.directive
+        pushDiagnostics(collection, filePath, [diagnostic])
+        return
+    }
+    getLog().appendLine(`Using profile: ${directive.name}`)
+    return withConfig({ ...settings, profile: directive.name }, () => lintWithConfig(filePath, text, collection, token))
+}
+
+async function lintWithConfig(filePath: string, text: string, collection: DiagnosticSink, token?: CancellationToken) {
+    const config = getConfig()
+    const channel = getLog()
+    const positions = new PositionCache()
+
+    collection.set(filePath, [])
+
+    let migration: MigrationContext | null = null
+    try {
+        migration = await getMigrationContext(filePath, text)
+    } catch (error: any) {
+        notify('error', 'Failed to read the migrations directory', error)
+    }
+
+    const ownStatements = await splitIntoStatements(filePath, migration?.text ?? text, positions)
+    if (ownStatements.length === 0) {
+        return
+    }
+
+    const paths: Set<string> = new Set(ownStatements.map(s => s.location.path))
+    for (const path of paths) {
+        collection.set(path, [])
+    }
+
+    // previous migrations run first, but only the file itself (and its includes) is reported on
+    const previousStatements: Statement[] = []
+    for (const previous of migration?.previous ?? []) {
+        previousStatements.push(...await splitIntoStatements(previous.path, previous.text, positions))
+    }
+    const firstReported = previousStatements.length
+    const statements = [...previousStatements, ...ownStatements]
+
+    const { template } = statements[0]
+    let nonTransactional: Map<Statement, string> = new Map()
+    let connection: LintConnection | null = null
+    let checkpoints: Checkpoints | null = null
+    let startIndex = 0
+    try {
+        if (config.isolation === 'transaction') {
+            connection = await connectScratchDatabase(statements[0])
+            nonTransactional = await findNonTransactionalStatements(connection.client, statements)
+            if (nonTransactional.size > 0 && config.nonTransactionalStatements === 'fallback') {
+                channel.appendLine(`${nonTransactional.size} statement(s) cannot run inside a transaction block, falling back to a temporary database.`)
+                nonTransactional.clear()
+                await connection.release()
+                connection = null
+            }
+        }
+        if (!connection && (config.checkpoints || firstReported > 0)) {
+            // the state after the previous migrations is cached as a checkpoint, to be used as a template next time
+            // a checkpoint contains the template as it was when the checkpoint was taken
+            const templateVersion = template ? await getTemplateVersion(await getMaintenanceClient(), template) : null
+            checkpoints = new Checkpoints(statements, template, templateVersion, firstReported > 0 ? firstReported - 1 : undefined)
+            const checkpoint = await checkpoints.findLatest()
+            if (checkpoint) {
+                channel.appendLine(`Restoring checkpoint after statement ${checkpoint.index}: ${checkpoint.database}`)
+                connection = await connectTempDatabase(statements[0], checkpoint.database)
+                startIndex = checkpoint.index + 1
+            }
+        }
+        if (!connection) {
+            startIndex = 0
+            connection = await connectTempDatabase(statements[0])
+        }
+        // `continue` error mode wraps the file in a transaction of its own, which these are run outside of
+        if (connection && config.errorMode === 'continue' && !connection.inTransaction) {
+            nonTransactional = await findNonTransactionalStatements(connection.client, statements)
+        }
+    } catch (e: any) {
+        await connection?.release()
+        handleError(e, collection, positions)
+        return
+    }
+    if (!connection) {
+        return
+    }
+    // cancelled from outside of the lint run, so on the server of its settings rather than the host's
+    const settings = getSettings()
+    const cancellation = token?.onCancellationRequested(() => withConfig(settings, () => cancelBackend(connection!.pid)))
+
+
+    let templateDiagnostic: Diagnostic | null = null
+
+    if (template && firstReported === 0) {
+        const { location: { path, range }, includedAt } = statements[0]
+        const message = `using template: ${template}`
+        templateDiagnostic = new Diagnostic(range, message, DiagnosticSeverity.Information)
+        templateDiagnostic.source = SOURCE
+        templateDiagnostic.code = CheckCode.template
+        pushDiagnostics(collection, path, [templateDiagnostic])
+
+        if (includedAt) {
+            const includedDiagnostic = new Diagnostic(includedAt.range, message, DiagnosticSeverity.Information)
+            includedDiagnostic.source = SOURCE
+            includedDiagnostic.code = CheckCode.template
+            includedDiagnostic.details = { echo: true }
+            const related = new DiagnosticRelatedInformation(path, range, message)
+            includedDiagnostic.relatedInformation = [related]
+            pushDiagnostics(collection, includedAt.path, [includedDiagnostic])
+        }
+    }
+
+    let usePlPgsqlCheck = false
+    if (config.usePlPgsqlCheck) {
+        const { client } = connection
+        try {
+            const createExtension = () => client.query(CREATE_EXTENSION_PLPGSQL_CHECK)
+            await (connection.inTransaction ? withSavepoint(client, createExtension) : createExtension())
+            usePlPgsqlCheck = true
+            channel.appendLine(`Using plpgsql_check.`)
+        } catch (error: any) {
+            notify('warning', `plpgsql_check extension not found. Install the extension to use this feature.`, error)
+        }
+    }
+
+    let useProfiler = false
+    if (usePlPgsqlCheck && config.profiler) {
+        const { client } = connection
+        try {
+            await (connection.inTransaction ? withSavepoint(client, () => enableProfiler(client)) : enableProfiler(client))
+            useProfiler = true
+        } catch (error: any) {
+            notify('warning', `Failed to enable the plpgsql_check profiler.`, error)
+        }
+    }
+    // the PL/pgSQL routines created by the file (not by previous migrations), by OID
+    const profiledRoutines: Map<string, ProfiledRoutine> = new Map()
+    const triggerFunctions = new TriggerFunctions()
+    if (usePlPgsqlCheck && startIndex > 0) {
+        // the routines restored from a checkpoint are used after it: its trigger functions are checked once a trigger
+        // attaches them, and the routines of the file are called, e.g. by tests at the end
+        try {
+            const restored = await findRestoredRoutines(connection.client, statements.slice(0, startIndex))
+            triggerFunctions.addRestored(restored)
+            for (const { routine, statement } of useProfiler ? restored : []) {
+                if (statements.indexOf(statement) >= firstReported) {
+                    profiledRoutines.set(routine.oid, { signature: routine.function_signature, statement })
+                }
+            }
+        } catch (error: any) {
+            channel.appendLine(`Failed to find the restored routines: ${error.message}`)
+        }
+    }
+
+    const length = statements.length
+    channel.appendLine(`statements: ${length}`)
+
+    const continueAfterError = config.errorMode === 'continue'
+    const failedStatements: Statement[] = []
+    // plpgsql_check findings are not reported again for a prefix restored from a checkpoint, so none is created past them
+    let hasFindings = false
+
+    try {
+        if (continueAfterError && !connection.inTransaction) {
+            await beginTransaction(connection.client)
+        }
+
+        // the session directives before a restored checkpoint have to be applied again
+        try {
+            await applySessionSettings(connection, statements.slice(firstReported, startIndex), continueAfterError)
+        } catch (error: any) {
+            handleError(new GeneralError({ message: 'Failed to apply session directives', cause: error }), collection, positions)
+            return
+        }
+
+        if (config.queryStats) {
+            for (const { location: { path, range }, sql } of statements.slice(firstReported, startIndex)) {
+                if (sql) {
+                    let restoredDiagnostic = new Diagnostic(range, 'restored from checkpoint', DiagnosticSeverity.Hint)
+                    restoredDiagnostic.source = SOURCE
+                    restoredDiagnostic.code = CheckCode.checkpoint
+                    pushDiagnostics(collection, path, [restoredDiagnostic])
+                }
+            }
+        }
+
+        for (var i = startIndex; i < length; i++) {
+            if (token?.isCancellationRequested) {
+                channel.appendLine(`Lint cancelled before statement ${i}`)
+                return
+            }
+
+            const statement = statements[i]
+            const { client } = connection
+            if (statement.template) {
+                if (i === 0 || (template && quotedEqual(template, statement.template))) {
+                    continue
+                }
+                statement.error = TEMPLATE_DIRECTIVE_ERROR_FIRST
+            }
+
+            const { location: { path: statementPath, range, startOffset }, sql } = statement
+            const isPrevious = i < firstReported
+
+            // previous migrations ran in sessions of their own, so their session directives don't carry over
+            if (statement.session && !statement.error) {
+                if (isPrevious) {
+                    continue
+                }
+                try {
+                    await applySessionSettings(connection, [statement], continueAfterError)
+                    channel.appendLine(`${i}: ${statement.session.directive}`)
+                    continue
+                } catch (error: any) {
+                    statement.error = `${statement.session.directive}: ${error.message}`
+                }
+            }
+
+            if (statement.error && isPrevious) {
+                reportPreviousMigrationFailure(collection, statements[firstReported], statement, statement.error)
+                return
+            }
+
+            if (statement.error) {
+                const { includedAt } = statement
+                if (includedAt) {
+                    let includedDiagnostic = new Diagnostic(includedAt.range, `In included file: ${statement.error} `, DiagnosticSeverity.Error)
+                    includedDiagnostic.source = SOURCE
+                    includedDiagnostic.code = CheckCode.directive
+                    includedDiagnostic.details = { echo: true }
+                    const related = new DiagnosticRelatedInformation(statementPath, range, statement.error)
+                    includedDiagnostic.relatedInformation = [related]
+
+                    pushDiagnostics(collection, includedAt.path, [includedDiagnostic])
+                }
+
+
+                if (templateDiagnostic) {
+                    templateDiagnostic.severity = DiagnosticSeverity.Warning
+                }
+                channel.appendLine(`STATEMENT ERROR ${i}: ${JSON.stringify(statement.location.range)} `)
+                let diagnostic = new Diagnostic(statement.location.range, statement.error, DiagnosticSeverity.Error)
+                diagnostic.source = SOURCE
+                diagnostic.code = CheckCode.directive
+                diagnostic.details = {
+                    includeChain: statement.includeChain.map(l => new DiagnosticRelatedInformation(l.path, l.range, 'included here')),
+                }
+                pushDiagnostics(collection, statement.location.path, [diagnostic])
+                if (continueAfterError) {
+                    continue
+                }
+                return
+            }
+
+            if (statement.metaCommand !== undefined) {
+                if (!isPrevious) {
+                    let skippedDiagnostic = new Diagnostic(range, `skipped psql meta-command: ${statement.metaCommand}`, DiagnosticSeverity.Information)
+                    skippedDiagnostic.source = SOURCE
+                    skippedDiagnostic.code = CheckCode.metaCommand
+                    pushDiagnostics(collection, statementPath, [skippedDiagnostic])
+                }
+                continue
+            }
+
+            if (!sql) {
+                channel.appendLine(`${i}: statement missing sql and error: ${JSON.stringify(statement)} `)
+                continue
+            }
+
+            // in the transaction of `transaction` isolation, they are skipped
+            const nonTransactionalReason = connection.inTransaction ? nonTransactional.get(statement) : undefined
+            if (nonTransactionalReason && isPrevious) {
+                continue
+            }
+            if (nonTransactionalReason) {
+                let skippedDiagnostic = new Diagnostic(range, `skipped, cannot run inside a transaction block (isolation: transaction): ${nonTransactionalReason}`, DiagnosticSeverity.Warning)
+                skippedDiagnostic.source = SOURCE
+                skippedDiagnostic.code = CheckCode.nonTransactional
+                pushDiagnostics(collection, statementPath, [skippedDiagnostic])
+                continue
+            }
+
+            if (continueAfterError && TRANSACTION_CONTROL_REGEX.test(sql)) {
+                if (isPrevious) {
+                    continue
+                }
+                let skippedDiagnostic = new Diagnostic(range, 'skipped transaction control statement (errorMode: continue)', DiagnosticSeverity.Information)
+                skippedDiagnostic.source = SOURCE
+                skippedDiagnostic.code = CheckCode.transactionControl
+                pushDiagnostics(collection, statementPath, [skippedDiagnostic])
+                continue
+            }
+
+            try {
+                const start = config.queryStats ? performance.now() : null
+                const { copyData, expectError } = statement
+                // to find the routines that the statement creates or replaces
+                const routinesBefore = usePlPgsqlCheck && CREATE_ROUTINE_REGEX.test(sql) ? await snapshotRoutines(client) : null
+                const triggersBefore = usePlPgsqlCheck && CREATE_TRIGGER_REGEX.test(sql) ? await snapshotTriggers(client) : null
+                const run = () => copyData === undefined ? client.query(sql) : copyFromText(client, sql, copyData)
+                // an expected failure must not abort the transaction around the file either
+                const { command, rowCount } = nonTransactional.has(statement)
+                    ? await withoutTransaction(client, run)
+                    : continueAfterError || (expectError && connection.inTransaction)
+                        ? await withSavepoint(client, run)
+                        : await run()
+                if (routinesBefore) {
+                    const { diagnostics, error, routines } = continueAfterError
+                        ? await withSavepoint(client, () => checkFunction(statement, client, positions, routinesBefore, triggerFunctions))
+                        : await checkFunction(statement, client, positions, routinesBefore, triggerFunctions)
+                    if (!isPrevious) {
+                        hasFindings ||= diagnostics.length > 0
+                        pushDiagnostics(collection, statementPath, diagnostics)
+                        for (const { oid, signature } of useProfiler ? routines : []) {
+                            profiledRoutines.set(oid, { signature, statement })
+                        }
+                    }
+                    // previous migrations are only reported when they fail to run, not on their findings
+                    if (error && !isPrevious) {
+                        throw error
+                    }
+                }
+                if (triggersBefore) {
+                    const checks = continueAfterError
+                        ? await withSavepoint(client, () => checkTriggerFunctions(statement, client, positions, triggersBefore, triggerFunctions))
+                        : await checkTriggerFunctions(statement, client, positions, triggersBefore, triggerFunctions)
+                    for (const { statement: functionStatement, diagnostics } of checks) {
+                        if (statements.indexOf(functionStatement) >= firstReported) {
+                            hasFindings ||= diagnostics.length > 0
+                            pushDiagnostics(collection, functionStatement.location.path, diagnostics)
+                        }
+                    }
+                }
+                if (expectError && !isPrevious) {
+                    if (templateDiagnostic) {
+                        templateDiagnostic.severity = DiagnosticSeverity.Warning
+                    }
+                    let unexpectedDiagnostic = new Diagnostic(range, `expected ${describeExpectedError(expectError)}, but the statement succeeded`, DiagnosticSeverity.Error)
+                    unexpectedDiagnostic.source = SOURCE
+                    unexpectedDiagnostic.code = CheckCode.expectError
+                    unexpectedDiagnostic.relatedInformation = [new DiagnosticRelatedInformation(expectError.location.path, expectError.location.range, 'expected here')]
+                    unexpectedDiagnostic.details = {
+                        includeChain: statement.includeChain.map(l => new DiagnosticRelatedInformation(l.path, l.range, 'included here')),
+                    }
+                    pushDiagnostics(collection, statementPath, [unexpectedDiagnostic])
+                } else if (config.queryStats && !isPrevious) {
+                    const time = (performance.now() - start!).toFixed(3)
+                    let message = command
+                    if (rowCount !== null) {
+                        message += rowCount === 1 ? ' 1 row' : ` ${rowCount} rows`
+                    }
+                    message += ` ${time} ms`
+                    let infoDiagnostic = new Diagnostic(range, message, DiagnosticSeverity.Hint)
+                    infoDiagnostic.source = SOURCE
+                    infoDiagnostic.code = CheckCode.queryStats
+                    pushDiagnostics(collection, statementPath, [infoDiagnostic])
+                }
+            } catch (error: any) {
+                const { expectError } = statement
+                if (expectError && matchesExpectedError(expectError, error)) {
+                    channel.appendLine(`${i}: failed as expected: ${error.message}`)
+                } else if (isPrevious) {
+                    reportPreviousMigrationFailure(collection, statements[firstReported], statement, error.message)
+                    return
+                } else {
+                    if (templateDiagnostic) {
+                        templateDiagnostic.severity = DiagnosticSeverity.Warning
+                    }
+
+                    const statementError = new StatementError({
+                        statement,
+                        error,
+                        message: error.message,
+                        dependsOn: continueAfterError ? findFailedDependency(error, failedStatements) : undefined,
+                        expected: expectError ? describeExpectedError(expectError) : undefined,
+                        earlier: statements.slice(firstReported, i),
+                    })
+                    failedStatements.push(statement)
+
+                    if (!statementError.handleShouldContinue(collection, positions)) {
+                        await reportProfiles(connection, profiledRoutines, collection, positions)
+                        return
+                    }
+                }
+            }
+
+            // creating a checkpoint reconnects, which loses the profiler's counts so far, so with the profiler
+            // only the checkpoint after the previous migrations is created
+            const profiling = useProfiler && i >= firstReported
+            if (checkpoints && failedStatements.length === 0 && !hasFindings && !profiling && !token?.isCancellationRequested && checkpoints.shouldCreate(i)) {
+                try {
+                    await checkpoints.create(connection, i, continueAfterError)
+                    await applySessionSettings(connection, statements.slice(firstReported, i + 1), continueAfterError)
+                    if (useProfiler) {
+                        const { client } = connection
+                        await (continueAfterError || connection.inTransaction ? withSavepoint(client, () => enableProfiler(client)) : enableProfiler(client))
+                    }
+                } catch (error: any) {
+                    handleError(new GeneralError({ message: 'Failed to create checkpoint', cause: error }), collection, positions)
+                    return
+                }
+            }
+        }
+
+        for (const { statement, diagnostic } of triggerFunctions.getUnattachedDiagnostics()) {
+            if (statements.indexOf(statement) >= firstReported) {
+                pushDiagnostics(collection, statement.location.path, [diagnostic])
+            }
+        }
+        await reportProfiles(connection, profiledRoutines, collection, positions)
+    } finally {
+        cancellation?.dispose()
+        await connection.release()
+        if (checkpoints) {
+            try {
+                await cleanupCheckpoints()
+            } catch (error: any) {
+                channel.appendLine(`Failed to clean up checkpoints: ${error.message}`)
+            }
+        }
+    }
+}
+
+/// The statements that cannot run inside a transaction block on the server of `client`, and why.
+async function findNonTransactionalStatements(client: Client, statements: Statement[]): Promise<Map<Statement, string>> {
+    const serverVersionNum = await getServerVersionNum(client)
+    const reasons: Map<Statement, string> = new Map()
+    for (const statement of statements) {
+        const reason = statement.sql ? getNonTransactionalReason(statement.sql, serverVersionNum) : null
+        if (reason) {
+            reasons.set(statement, reason)
+        }
+    }
+    return reasons
+}
+
+/// Applies the session directives among `statements`, in a savepoint inside a transaction
+/// (`inTransaction`, or the connection's own), so that a failure doesn't abort it.
+async function applySessionSettings(connection: LintConnection, statements: Statement[], inTransaction: boolean) {
+    const { client } = connection
+    for (const { session } of statements) {
+        if (session) {
+            const apply = () => applySessionSetting(client, session)
+            await (inTransaction || connection.inTransaction ? withSavepoint(client, apply) : apply())
+        }
+    }
+}
+
+/// Adds the profiles of `routines` to `collection` (with `profiler`). A failure is only logged,
+/// e.g. when the failed statement aborted the transaction of `transaction` isolation.
+async function reportProfiles(connection: LintConnection, routines: Map<string, ProfiledRoutine>, collection: DiagnosticSink, positions: PositionCache) {
+    if (routines.size === 0 || !collection.addProfile) {
+        return
+    }
+    try {
+        for (const [path, lines] of await getProfiles(connection.client, routines, positions)) {
+            collection.addProfile(path, lines)
+        }
+    } catch (error: any) {
+        getLog().appendLine(`Failed to read the profiler results: ${error.message}`)
+    }
+}
+
+/// Reports on the first statement of the migration being linted that a previous migration failed,
+/// since the migration cannot be linted without it.
+function reportPreviousMigrationFailure(collection: DiagnosticSink, first: Statement, failed: Statement, message: string) {
+    const { path, range } = failed.location
+    const diagnostic = new Diagnostic(
+        first.location.range,
+        `Previous migration ${basename(path)} failed (line ${range.start.line + 1}): ${message}`,
+        DiagnosticSeverity.Error,
+    )
+    diagnostic.source = SOURCE
+    diagnostic.code = CheckCode.migration
+    diagnostic.relatedInformation = [new DiagnosticRelatedInformation(path, range, message)]
+    pushDiagnostics(collection, first.location.path, [diagnostic])
+}
+
+/// Lints the file at `filePath` in a log section of its own and returns its diagnostics,
+/// along with those of the files it includes.
+export async function lintFile(filePath: string, token?: CancellationToken): Promise<DiagnosticBuffer> {
+    const text = await readFile(filePath, 'utf8')
+    const buffer = new DiagnosticBuffer()
+    await withLogSection(`lint ${filePath}`, () => lintText(filePath, text, buffer, token))
+    return buffer
+}
@@ -0,0 +1,115 @@
+import { Client, ClientConfig } from 'pg'
+import { getConfig, getLog, notify } from './host'
+import { createTempDatabase } from './createTempDatabase'
+import { getDatabasePool } from './databasePool'
+import { GeneralError } from './errors'
+import { acquireScratchDatabase } from './scratchDatabase'
+import { beginTransaction } from './savepoint'
+import { Statement } from './splitIntoStatements'
+
+/// A connection to the database that the statements of a lint cycle run in.
+export interface LintConnection {
+    /// Replaced when the connection has to be re-established, e.g. after creating a checkpoint.
+    client: Client
+    /// The backend process ID of `client`, used to cancel its running query.
+    pid: number
+    clientConfig: ClientConfig
+    database: string
+    /// Whether the lint cycle runs inside a transaction that is rolled back on `release`.
+    inTransaction: boolean
+    release(): Promise<void>
+}
+
+export async function connectClient(clientConfig: ClientConfig): Promise<{ client: Client, pid: number }> {
+    const channel = getLog()
+    const { database } = clientConfig
+    const client = new Client(clientConfig)
+    try {
+        await client.connect()
+        const result = await client.query('SELECT current_database(), pg_backend_pid() AS pid;')
+        const { current_database: currentDatabase, pid } = result.rows[0]
+        if (database !== currentDatabase) {
+            throw new Error(`current_database: ${currentDatabase} does NOT match expected temporary database name: ${database} `)
+        }
+        channel.appendLine(`Connected to database: ${client.database} `)
+        return { client, pid }
+    } catch (error: any) {
+        await client.end()
+        throw error
+    }
+}
+
+/// Takes a temporary database from the pool or creates one from a checkpoint, and connects to it.
+/// The database is dropped in the background on `release`.
+/// Returns `null` if the database was created but the connection failed.
+export async function connectTempDatabase(templateStatement: Statement, checkpoint?: string): Promise<LintConnection | null> {
+    const { databaseUrl } = getConfig()
+    const pool = getDatabasePool()
+    const clientConfig = checkpoint
+        ? await createTempDatabase(templateStatement, checkpoint)
+        : await pool.acquire(templateStatement)
+    const database = clientConfig.database!
+    let client: Client
+    let pid: number
+    try {
+        ({ client, pid } = await connectClient(clientConfig))
+    } catch (error: any) {
+        notify('error', `Failed to connect to temporary database: ${database}, url: ${databaseUrl} `, error)
+        pool.release(database)
+        return null
+    }
+    const connection: LintConnection = {
+        client,
+        pid,
+        clientConfig,
+        database,
+        inTransaction: false,
+        release: async () => {
+            await connection.client.end()
+            pool.release(database)
+        },
+    }
+    return connection
+}
+
+/// Connects to the long-lived scratch database and opens a transaction that is rolled back on `release`.
+/// Other runs wait for the scratch database until then.
+export async function connectScratchDatabase(templateStatement: Statement): Promise<LintConnection> {
+    const { clientConfig, release } = await acquireScratchDatabase(templateStatement)
+    const database = clientConfig.database!
+    const connectError = (error: any) => new GeneralError({
+        message: `Failed to connect to scratch database: ${database}`,
+        cause: error,
+    })
+    let client: Client
+    let pid: number
+    try {
+        ({ client, pid } = await connectClient(clientConfig))
+    } catch (error: any) {
+        release()
+        throw connectError(error)
+    }
+    try {
+        await beginTransaction(client)
+    } catch (error: any) {
+        await client.end()
+        release()
+        throw connectError(error)
+    }
+    const connection: LintConnection = {
+        client,
+        pid,
+        clientConfig,
+        database,
+        inTransaction: true,
+        release: async () => {
+            try {
+                await connection.client.query('ROLLBACK')
+            } finally {
+                await connection.client.end()
+                release()
+            }
+        },
+    }
+    return connection
+}
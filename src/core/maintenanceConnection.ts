@@ -0,0 +1,74 @@
+import { Client } from 'pg'
+import { connectWithConfig, getConnectionConfig } from './connectionConfig'
+import { getConfig, getLog } from './host'
+
+interface MaintenanceConnection {
+    client: Client | null
+    connecting: Promise<Client> | null
+}
+
+/// By `databaseUrl` (and SSL settings), as files in different workspace folders (or profiles) may lint on different servers at the same time.
+const _connections: Map<string, MaintenanceConnection> = new Map()
+
+/// Returns the long-lived connection to `databaseUrl` used for `CREATE`/`DROP DATABASE`,
+/// `pg_terminate_backend` and other maintenance queries, (re)connecting it if needed.
+/// Do not `end()` the returned client. It is shared: each query on it waits for the previous one (see `serializeQueries`),
+/// so a slow one, e.g. `CREATE DATABASE`, holds up the others.
+export async function getMaintenanceClient(): Promise<Client> {
+    const { databaseUrl, sslMode, sslRootCert } = getConfig()
+    const key = `${databaseUrl}\0${sslMode}\0${sslRootCert}`
+    let connection = _connections.get(key)
+    if (!connection) {
+        connection = { client: null, connecting: null }
+        _connections.set(key, connection)
+    }
+    if (connection.client) {
+        return connection.client
+    }
+    if (!connection.connecting) {
+        const pending = connection
+        pending.connecting = connect(pending).finally(() => {
+            pending.connecting = null
+        })
+    }
+    return connection.connecting!
+}
+
+async function connect(connection: MaintenanceConnection): Promise<Client> {
+    const channel = getLog()
+    channel.appendLine('Connecting to Postgres...')
+    const client = serializeQueries(await connectWithConfig(await getConnectionConfig()))
+    const forget = () => {
+        if (connection.client === client) {
+            connection.client = null
+        }
+    }
+    client.on('error', (error) => {
+        channel.appendLine(`Maintenance connection error: ${error.message}`)
+        forget()
+    })
+    client.on('end', forget)
+    connection.client = client
+    return client
+}
+
+/// Makes each `query` on `client` start only once the previous one settled, as `pg` deprecates (and `pg` 9 rejects)
+/// calling `query` while another query is still running on the same client.
+function serializeQueries(client: Client): Client {
+    const query = client.query.bind(client) as (...args: unknown[]) => Promise<unknown>
+    let previous: Promise<unknown> = Promise.resolve()
+    client.query = ((...args: unknown[]) => {
+        const result = previous.then(() => query(...args))
+        previous = result.catch(() => undefined)
+        return result
+    }) as Client['query']
+    return client
+}
+
+export async function closeMaintenanceClient() {
+    const connections = [..._connections.values()]
+    _connections.clear()
+    for (const { client, connecting } of connections) {
+        await (client ?? await connecting?.catch(() => null))?.end()
+    }
+}
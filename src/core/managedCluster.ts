@@ -0,0 +1,167 @@
+import { execFile } from 'child_process'
+import * as fs from 'fs/promises'
+import * as net from 'net'
+import * as os from 'os'
+import * as path from 'path'
+import { promisify } from 'util'
+import { expandGlob } from './glob'
+import { getLog } from './host'
+
+const execFileAsync = promisify(execFile)
+
+const IS_WINDOWS: boolean = process.platform === 'win32'
+const EXE: string = IS_WINDOWS ? '.exe' : ''
+const SUPERUSER: string = 'pglint'
+/// Only part of the socket file name (`.s.PGSQL.<port>`), as the socket directory is private.
+const SOCKET_PORT: number = 5432
+const START_TIMEOUT_SECONDS: number = 60
+
+/// Where PostgreSQL server binaries are commonly installed. Searched after `PATH`, newest version first.
+const COMMON_BIN_GLOBS: string[] = IS_WINDOWS
+    ? ['C:/Program Files/PostgreSQL/*/bin']
+    : [
+        '/usr/lib/postgresql/*/bin',
+        '/usr/pgsql-*/bin',
+        '/usr/local/pgsql/bin',
+        '/opt/homebrew/opt/postgresql@*/bin',
+        '/opt/homebrew/opt/postgresql/bin',
+        '/usr/local/opt/postgresql@*/bin',
+        '/usr/local/opt/postgresql/bin',
+        '/Applications/Postgres.app/Contents/Versions/*/bin',
+    ]
+
+async function hasServerBinaries(directory: string): Promise<boolean> {
+    try {
+        await fs.access(path.join(directory, `initdb${EXE}`))
+        await fs.access(path.join(directory, `pg_ctl${EXE}`))
+        return true
+    } catch {
+        return false
+    }
+}
+
+/// Returns the directory containing `initdb` and `pg_ctl`: `binDirectory` if given,
+/// otherwise the first match on `PATH` or in the usual installation directories.
+export async function findPostgresBinDirectory(binDirectory?: string): Promise<string> {
+    if (binDirectory) {
+        if (await hasServerBinaries(binDirectory)) {
+            return binDirectory
+        }
+        throw new Error(`initdb and pg_ctl not found in ${binDirectory}`)
+    }
+    for (const directory of (process.env.PATH ?? '').split(path.delimiter)) {
+        if (directory && await hasServerBinaries(directory)) {
+            return directory
+        }
+    }
+    for (const pattern of COMMON_BIN_GLOBS) {
+        const directories = new Set((await expandGlob(`${pattern}/pg_ctl${EXE}`, '/')).map(p => path.dirname(p)))
+        const newestFirst = [...directories].sort((a, b) => b.localeCompare(a, undefined, { numeric: true }))
+        for (const directory of newestFirst) {
+            if (await hasServerBinaries(directory)) {
+                return directory
+            }
+        }
+    }
+    throw new Error('initdb and pg_ctl not found on PATH or in the usual installation directories; set the PostgreSQL bin directory')
+}
+
+async function getFreePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const server = net.createServer()
+        server.unref()
+        server.on('error', reject)
+        server.listen(0, 'localhost', () => {
+            const { port } = server.address() as net.AddressInfo
+            server.close(() => resolve(port))
+        })
+    })
+}
+
+/// A throwaway PostgreSQL cluster: initialized in `dataDirectory` (removing anything left there) on `start`,
+/// listening only on a private Unix socket (or, on Windows, a random port on localhost),
+/// and stopped and removed on `stop`. Durability is turned off, as nothing in it is meant to last.
+export class ManagedCluster {
+    private dataDirectory: string
+    private binDirectory?: string
+    private socketDirectory: string | null = null
+    private pgCtl: string | null = null
+
+    constructor({ dataDirectory, binDirectory }: { dataDirectory: string, binDirectory?: string }) {
+        this.dataDirectory = dataDirectory
+        this.binDirectory = binDirectory
+    }
+
+    /// Initializes and starts the cluster and returns its URL.
+    public async start(): Promise<string> {
+        const channel = getLog()
+        const binDirectory = await findPostgresBinDirectory(this.binDirectory)
+        const pgCtl = path.join(binDirectory, `pg_ctl${EXE}`)
+        channel.appendLine(`Managed cluster: using ${binDirectory}`)
+
+        await this.removeStale(pgCtl)
+        await fs.mkdir(path.dirname(this.dataDirectory), { recursive: true })
+        channel.appendLine(`Managed cluster: initializing ${this.dataDirectory}`)
+        await execFileAsync(path.join(binDirectory, `initdb${EXE}`), [
+            '-D', this.dataDirectory,
+            '-U', SUPERUSER,
+            '--auth=trust',
+            '--encoding=UTF8',
+            '--no-sync',
+        ])
+
+        let options = '-c fsync=off -c synchronous_commit=off -c full_page_writes=off'
+        // without SSL, whatever `sslMode` (or `PGSSLMODE`) says for the configured server
+        let url: string
+        if (IS_WINDOWS) {
+            const port = await getFreePort()
+            options += ` -c listen_addresses=localhost -p ${port}`
+            url = `postgres://${SUPERUSER}@localhost:${port}/postgres?sslmode=disable`
+        } else {
+            // socket paths are limited to ~100 characters, so the socket can't live in the (deep) data directory
+            this.socketDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'pglint-'))
+            options += ` -c listen_addresses='' -k '${this.socketDirectory}' -p ${SOCKET_PORT}`
+            url = `postgres://${SUPERUSER}@localhost:${SOCKET_PORT}/postgres?host=${encodeURIComponent(this.socketDirectory)}&sslmode=disable`
+        }
+
+        channel.appendLine(`Managed cluster: starting`)
+        await execFileAsync(pgCtl, [
+            '-D', this.dataDirectory,
+            '-l', `${this.dataDirectory}.log`,
+            '-o', options,
+            '-w', '-t', `${START_TIMEOUT_SECONDS}`,
+            'start',
+        ])
+        this.pgCtl = pgCtl
+        channel.appendLine(`Managed cluster: started`)
+        return url
+    }
+
+    /// Stops the cluster and removes its data directory, unless it could not be stopped.
+    public async stop(): Promise<void> {
+        const { pgCtl } = this
+        if (!pgCtl) {
+            return
+        }
+        this.pgCtl = null
+        getLog().appendLine(`Managed cluster: stopping`)
+        await execFileAsync(pgCtl, ['-D', this.dataDirectory, '-m', 'fast', '-w', 'stop'])
+        await fs.rm(this.dataDirectory, { recursive: true, force: true })
+        if (this.socketDirectory) {
+            await fs.rm(this.socketDirectory, { recursive: true, force: true })
+            this.socketDirectory = null
+        }
+    }
+
+    /// Stops a cluster left running in the data directory (e.g. after a crash), and removes the directory.
+    private async removeStale(pgCtl: string) {
+        try {
+            await fs.access(path.join(this.dataDirectory, 'postmaster.pid'))
+            getLog().appendLine(`Managed cluster: stopping stale cluster in ${this.dataDirectory}`)
+            await execFileAsync(pgCtl, ['-D', this.dataDirectory, '-m', 'immediate', '-w', 'stop'])
+        } catch {
+            // not running
+        }
+        await fs.rm(this.dataDirectory, { recursive: true, force: true })
+    }
+}
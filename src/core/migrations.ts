@@ -0,0 +1,146 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { MigrationLayout, MigrationOrder } from './config'
+import { getConfig, getLog } from './host'
+
+const MIGRATION_EXTENSION: string = '.sql'
+const LEADING_NUMBER_REGEX: RegExp = /^(\d+)/
+/// Flyway file names: `V<version>__<description>.sql` (versioned), `R__<description>.sql` (repeatable).
+const FLYWAY_VERSIONED_REGEX: RegExp = /^V(\d+(?:[._]\d+)*)__.+\.sql$/i
+const FLYWAY_REPEATABLE_REGEX: RegExp = /^R__.+\.sql$/i
+const DBMATE_UP_REGEX: RegExp = /^--\s*migrate:up\b.*$/m
+const DBMATE_DOWN_REGEX: RegExp = /^--\s*migrate:down\b.*$/m
+
+export interface Migration {
+    path: string
+    /// The SQL to run, with everything that is not run (e.g. dbmate `-- migrate:down` sections) blanked out,
+    /// so that offsets still match the file.
+    text: string
+}
+
+/// The migrations that are applied before linting a file in the migrations directory.
+export interface MigrationContext {
+    /// The file being linted, blanked out like `Migration.text`.
+    text: string
+    previous: Migration[]
+}
+
+/// Replaces every character outside `[start, end)` with a space, keeping line breaks.
+function blankOutside(text: string, start: number, end: number): string {
+    const blank = (s: string) => s.replace(/[^\r\n]/g, ' ')
+    return blank(text.substring(0, start)) + text.substring(start, end) + blank(text.substring(end))
+}
+
+function resolveLayout(layout: MigrationLayout, name: string, text: string): Exclude<MigrationLayout, 'auto'> {
+    if (layout !== 'auto') {
+        return layout
+    }
+    if (FLYWAY_VERSIONED_REGEX.test(name) || FLYWAY_REPEATABLE_REGEX.test(name)) {
+        return 'flyway'
+    }
+    return DBMATE_UP_REGEX.test(text) ? 'dbmate' : 'plain'
+}
+
+/// Keeps only the SQL that the migration tool runs on the way up.
+function getUpText(layout: Exclude<MigrationLayout, 'auto'>, text: string): string {
+    if (layout !== 'dbmate') {
+        return text
+    }
+    const up = DBMATE_UP_REGEX.exec(text)
+    if (!up) {
+        return blankOutside(text, 0, 0)
+    }
+    const start = up.index + up[0].length
+    const down = DBMATE_DOWN_REGEX.exec(text.substring(start))
+    return blankOutside(text, start, down ? start + down.index : text.length)
+}
+
+function compareNumbers(a: string, b: string): number {
+    const [x, y] = [a.replace(/^0+(?=\d)/, ''), b.replace(/^0+(?=\d)/, '')]
+    return x.length - y.length || (x < y ? -1 : x > y ? 1 : 0)
+}
+
+function compareNames(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0
+}
+
+/// Flyway versions compare part by part, numerically: `1.9` < `1.10` < `2`.
+function compareFlywayVersions(a: string, b: string): number {
+    const [x, y] = [a.split(/[._]/), b.split(/[._]/)]
+    for (let i = 0; i < Math.max(x.length, y.length); i++) {
+        const result = compareNumbers(x[i] ?? '0', y[i] ?? '0')
+        if (result !== 0) {
+            return result
+        }
+    }
+    return 0
+}
+
+/// Returns the names of the migrations in `names` that run before `name`, in order,
+/// or `null` if `name` is not a migration.
+function getPreviousNames(names: string[], name: string, order: MigrationOrder, flyway: boolean): string[] | null {
+    if (flyway) {
+        const versioned = names
+            .map(n => ({ name: n, version: FLYWAY_VERSIONED_REGEX.exec(n)?.[1] }))
+            .filter(({ version }) => version !== undefined)
+            .sort((a, b) => compareFlywayVersions(a.version!, b.version!) || compareNames(a.name, b.name))
+        const repeatable = names.filter(n => FLYWAY_REPEATABLE_REGEX.test(n)).sort(compareNames)
+        // versioned migrations run first, then repeatable ones by description
+        const all = [...versioned.map(({ name }) => name), ...repeatable]
+        const index = all.indexOf(name)
+        return index === -1 ? null : all.slice(0, index)
+    }
+
+    if (order === 'timestamp') {
+        const numbered = names
+            .map(n => ({ name: n, number: LEADING_NUMBER_REGEX.exec(n)?.[1] }))
+            .filter(({ number }) => number !== undefined)
+            .sort((a, b) => compareNumbers(a.number!, b.number!) || compareNames(a.name, b.name))
+            .map(({ name }) => name)
+        const index = numbered.indexOf(name)
+        return index === -1 ? null : numbered.slice(0, index)
+    }
+
+    const sorted = [...names].sort(compareNames)
+    return sorted.slice(0, sorted.indexOf(name))
+}
+
+/// If `filePath` is a migration in the configured `migrationsDirectory`, returns the migrations to apply before it
+/// and the part of `text` to lint. Returns `null` otherwise, or if the migrations directory is not configured.
+export async function getMigrationContext(filePath: string, text: string): Promise<MigrationContext | null> {
+    const { migrationsDirectory, migrationOrder, migrationLayout } = getConfig()
+    if (!migrationsDirectory) {
+        return null
+    }
+    const directory = path.resolve(migrationsDirectory)
+    const name = path.basename(filePath)
+    if (path.dirname(path.resolve(filePath)) !== directory || path.extname(name).toLowerCase() !== MIGRATION_EXTENSION) {
+        return null
+    }
+
+    const layout = resolveLayout(migrationLayout, name, text)
+    const entries = await fs.readdir(directory, { withFileTypes: true })
+    const names = entries
+        .filter(entry => entry.isFile() && path.extname(entry.name).toLowerCase() === MIGRATION_EXTENSION)
+        .map(entry => entry.name)
+    if (!names.includes(name)) {
+        names.push(name)
+    }
+
+    const previousNames = getPreviousNames(names, name, migrationOrder, layout === 'flyway')
+    if (!previousNames) {
+        return null
+    }
+
+    const previous: Migration[] = []
+    for (const previousName of previousNames) {
+        const previousPath = path.join(directory, previousName)
+        const previousText = await fs.readFile(previousPath, 'utf8')
+        previous.push({
+            path: previousPath,
+            text: getUpText(resolveLayout(migrationLayout, previousName, previousText), previousText),
+        })
+    }
+    getLog().appendLine(`Migration ${name} (${layout}): applying ${previous.length} previous migration(s) first`)
+    return { text: getUpText(layout, text), previous }
+}
@@ -0,0 +1,37 @@
+import { Client } from 'pg'
+import { TRANSACTION_CONTROL_REGEX } from './savepoint'
+
+interface NonTransactionalRule {
+    regex: RegExp
+    reason: string
+    /// The rule only applies to servers older than this `server_version_num`.
+    beforeVersion?: number
+}
+
+const NON_TRANSACTIONAL_RULES: NonTransactionalRule[] = [
+    { regex: /^\s*(CREATE|DROP)\s+DATABASE\b/i, reason: 'CREATE/DROP DATABASE' },
+    { regex: /^\s*(CREATE|DROP)\s+TABLESPACE\b/i, reason: 'CREATE/DROP TABLESPACE' },
+    { regex: /^\s*(CREATE\s+(UNIQUE\s+)?INDEX|DROP\s+INDEX)\s+CONCURRENTLY\b/i, reason: 'CREATE/DROP INDEX CONCURRENTLY' },
+    { regex: /^\s*REINDEX\b.*\bCONCURRENTLY\b/is, reason: 'REINDEX CONCURRENTLY' },
+    { regex: /^\s*REINDEX\s+(\([^)]*\)\s*)?(DATABASE|SYSTEM)\b/i, reason: 'REINDEX DATABASE/SYSTEM' },
+    { regex: /^\s*ALTER\s+TABLE\b.*\bDETACH\s+PARTITION\b.*\bCONCURRENTLY\b/is, reason: 'DETACH PARTITION CONCURRENTLY' },
+    { regex: /^\s*VACUUM\b/i, reason: 'VACUUM' },
+    { regex: /^\s*ALTER\s+SYSTEM\b/i, reason: 'ALTER SYSTEM' },
+    { regex: /^\s*(CREATE|ALTER|DROP)\s+SUBSCRIPTION\b/i, reason: 'CREATE/ALTER/DROP SUBSCRIPTION' },
+    { regex: /^\s*ALTER\s+TYPE\b.*\bADD\s+VALUE\b/is, reason: 'ALTER TYPE ... ADD VALUE (before PostgreSQL 12)', beforeVersion: 120000 },
+    { regex: TRANSACTION_CONTROL_REGEX, reason: 'transaction control statement' },
+]
+
+export async function getServerVersionNum(client: Client): Promise<number> {
+    const result = await client.query('SHOW server_version_num;')
+    return parseInt(result.rows[0].server_version_num)
+}
+
+/// Returns why `sql` cannot run inside a transaction block on a server with the given
+/// `server_version_num`, or `null` if it can.
+export function getNonTransactionalReason(sql: string, serverVersionNum: number): string | null {
+    const rule = NON_TRANSACTIONAL_RULES.find(({ regex, beforeVersion }) =>
+        regex.test(sql) && (beforeVersion === undefined || serverVersionNum < beforeVersion)
+    )
+    return rule?.reason ?? null
+}
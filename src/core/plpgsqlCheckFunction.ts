@@ -0,0 +1,568 @@
+import { Client, QueryResult } from 'pg'
+import { CheckCode, PlPgsqlCheckWarning, SOURCE } from './config'
+import { getCreatedObject, getRoutineArguments, QualifiedName } from './dependentFailures'
+import { getConfig, getLog } from './host'
+import { PositionCache, Statement } from './splitIntoStatements'
+import { Diagnostic, DiagnosticRelatedInformation, DiagnosticSeverity, Range } from './types'
+
+const PLPGSQL_CHECK: string = 'plpgsql_check'
+
+export const CREATE_EXTENSION_PLPGSQL_CHECK: string = `CREATE EXTENSION IF NOT EXISTS ${PLPGSQL_CHECK};`
+/// Statements that may create or replace functions or procedures, which are checked after they run.
+export const CREATE_ROUTINE_REGEX: RegExp = /CREATE\s+(OR\s+REPLACE\s+)?(FUNCTION|PROCEDURE)\s+/is
+/// Statements that may create or replace triggers, after which the trigger functions they attach are checked.
+export const CREATE_TRIGGER_REGEX: RegExp = /CREATE\s+(OR\s+REPLACE\s+)?(CONSTRAINT\s+)?TRIGGER\s+/is
+
+const SUCCESSFUL_COMPLETION: string = '00000'
+const PLPGSQL_CHECK_FUNCTION_TB: string = 'plpgsql_check_function_tb'
+const DOLLAR_QUOTE: RegExp = /\$[^\s]*\$/
+
+/// By the `level` of a plpgsql_check row.
+const LEVEL_SEVERITIES: Record<string, DiagnosticSeverity> = {
+    'error': DiagnosticSeverity.Error,
+    'warning': DiagnosticSeverity.Warning,
+    'security': DiagnosticSeverity.Warning,
+    'warning extra': DiagnosticSeverity.Information,
+    'performance': DiagnosticSeverity.Information,
+    'compatibility': DiagnosticSeverity.Information,
+}
+const ALL_WARNINGS: PlPgsqlCheckWarning[] = ['extra_warnings', 'performance_warnings', 'security_warnings', 'compatibility_warnings']
+
+const ARGUMENT_MODE_REGEX: RegExp = /^(IN|OUT|INOUT|VARIADIC)\s+/i
+const ARGUMENT_DEFAULT_REGEX: RegExp = /\s+DEFAULT\s[\s\S]*$|\s*=[\s\S]*$/i
+const ARGUMENT_NAME_REGEX: RegExp = /^(?:"(?:[^"]|"")+"|[\w$]+)\s+/
+const TABLE_REGEX: RegExp = /@table\s+("([^"]+)"|([^\s]+))/is
+/// The routines outside of the system schemas, with the version of their `pg_proc` row: `CREATE OR REPLACE` keeps the OID
+/// but writes a new row version (a new `ctid`, and a new `xmin` outside of the transaction that created it).
+const GET_ROUTINES_SQL: string = `--sql
+SELECT
+    p.oid::text AS oid,
+    p.xmin::text || ':' || p.ctid::text AS version,
+    l.lanname AS language,
+    format_type(p.prorettype, NULL) AS return_type,
+    p.oid::regprocedure::text AS function_signature
+FROM
+    pg_proc p
+    JOIN pg_namespace n ON p.pronamespace = n.oid
+    JOIN pg_language l ON p.prolang = l.oid
+WHERE
+    n.nspname NOT IN('pg_catalog', 'information_schema')
+ORDER BY
+    p.oid;`
+
+interface RoutineRow {
+    oid: string
+    version: string
+    language: string
+    return_type: string
+    /// The `regprocedure` of the routine, schema-qualified unless its schema is in the `search_path`.
+    function_signature: string
+}
+
+/// The versions of the routines by OID, taken before a statement runs to find the routines it creates or replaces.
+export type RoutineSnapshot = Map<string, string>
+
+/// The PL/pgSQL routines like `GET_ROUTINES_SQL`, with their names, and whether a trigger uses them.
+const GET_PLPGSQL_ROUTINES_SQL: string = `--sql
+SELECT
+    p.oid::text AS oid,
+    p.xmin::text || ':' || p.ctid::text AS version,
+    l.lanname AS language,
+    format_type(p.prorettype, NULL) AS return_type,
+    p.oid::regprocedure::text AS function_signature,
+    n.nspname AS schema,
+    p.proname AS name,
+    p.proargtypes::text AS argument_types,
+    EXISTS (SELECT FROM pg_trigger t WHERE t.tgfoid = p.oid AND NOT t.tgisinternal) AS attached
+FROM
+    pg_proc p
+    JOIN pg_namespace n ON p.pronamespace = n.oid
+    JOIN pg_language l ON p.prolang = l.oid
+WHERE
+    n.nspname NOT IN('pg_catalog', 'information_schema')
+    AND l.lanname = 'plpgsql'
+ORDER BY
+    p.oid;`
+
+interface NamedRoutineRow extends RoutineRow {
+    schema: string
+    name: string
+    /// The OIDs of the argument types in the signature, separated by spaces.
+    argument_types: string
+    attached: boolean
+}
+
+/// A PL/pgSQL routine in a database restored from a checkpoint, and the statement of the restored prefix that created it.
+export interface RestoredRoutine {
+    routine: RoutineRow
+    statement: Statement
+    /// Whether a trigger uses the routine.
+    attached: boolean
+}
+
+/// The triggers (other than those of constraints), with the version of their `pg_trigger` row like `GET_ROUTINES_SQL`.
+const GET_TRIGGERS_SQL: string = `--sql
+SELECT
+    t.oid::text AS oid,
+    t.xmin::text || ':' || t.ctid::text AS version,
+    t.tgfoid::text AS function_oid,
+    t.tgrelid::regclass::text AS table_name
+FROM
+    pg_trigger t
+WHERE
+    NOT t.tgisinternal
+ORDER BY
+    t.oid;`
+const GET_TRIGGER_TABLES_SQL: string = `--sql
+SELECT DISTINCT
+    t.tgrelid::regclass::text AS table_name
+FROM
+    pg_trigger t
+WHERE
+    t.tgfoid = $1::oid
+    AND NOT t.tgisinternal
+ORDER BY
+    1;`
+
+interface TriggerRow {
+    oid: string
+    version: string
+    function_oid: string
+    table_name: string
+}
+
+/// The versions of the triggers by OID, taken before a statement runs to find the triggers it creates or replaces.
+export type TriggerSnapshot = Map<string, string>
+
+interface CheckFunctionRow {
+    functionid: string
+    /// `null` for findings about the function as a whole, e.g. unused parameters.
+    lineno: number | null
+    statement: string
+    sqlstate: string
+    message: string
+    detail: string | null
+    hint: string | null
+    level: string
+    position: number | null
+    query: string | null
+    context: string
+}
+
+/// A plpgsql_check row, shaped like the `pg` `DatabaseError` fields that `StatementError` uses.
+class FunctionError extends Error {
+    public position: number
+    public detail: string | null
+    public hint: string | null
+    public where: string | null
+    /// The SQLSTATE of the row, or the check type for rows without one (e.g. unused variables).
+    public code: string
+
+    constructor(position: number, row: CheckFunctionRow) {
+        super(row.message)
+        this.position = position
+        this.detail = row.detail
+        this.hint = row.hint
+        this.where = row.context || null
+        this.code = getRowCode(row)
+    }
+}
+
+function getRowCode(row: CheckFunctionRow): string {
+    return row.sqlstate && row.sqlstate !== SUCCESSFUL_COMPLETION ? row.sqlstate : CheckCode.plpgsqlCheck
+}
+
+/// The message of the row, with its detail and context (the hint is added like that of a database error).
+function describeRow({ message, detail, context }: CheckFunctionRow): string {
+    let description = message
+    if (detail) {
+        description += `; Detail: ${detail}`
+    }
+    if (context) {
+        description += `; Context: ${context}`
+    }
+    return description
+}
+
+/// The findings of plpgsql_check on the function created by a statement.
+export interface FunctionCheck {
+    /// A diagnostic for each finding, except `error`.
+    diagnostics: Diagnostic[]
+    /// The first finding of the `error` level, which fails the statement like a database error, if any.
+    error: Error | null
+    /// The PL/pgSQL routines that the statement created or replaced, e.g. to profile.
+    routines: { oid: string, signature: string }[]
+}
+
+/// The findings of plpgsql_check on a trigger function, checked when a later statement attached it to a table.
+export interface TriggerFunctionCheck {
+    /// The statement that created the function, which the diagnostics are in.
+    statement: Statement
+    diagnostics: Diagnostic[]
+}
+
+interface Finding {
+    row: CheckFunctionRow
+    severity: DiagnosticSeverity
+    start: number
+    end: number
+}
+
+/// The table of a trigger function check, and the statement that attached the function to it.
+interface TriggerTable {
+    table: string
+    statement?: Statement
+}
+
+/// The PL/pgSQL trigger functions created during a lint run without an `@table` annotation, by OID.
+/// plpgsql_check needs a table to check a trigger function against, so each is checked against every table
+/// that a `CREATE TRIGGER` attaches it to.
+export class TriggerFunctions {
+    private functions: Map<string, { routine: RoutineRow, statement: Statement, attached: boolean }> = new Map()
+
+    public add(routine: RoutineRow, statement: Statement, attached: boolean) {
+        this.functions.set(routine.oid, { routine, statement, attached })
+    }
+
+    /// Adds the trigger functions without `@table` among `restored`, as `checkFunction` did when the restored prefix ran.
+    public addRestored(restored: RestoredRoutine[]) {
+        for (const { routine, statement, attached } of restored) {
+            if (routine.return_type === 'trigger' && !statement.sql!.match(TABLE_REGEX)) {
+                this.add(routine, statement, attached)
+            }
+        }
+    }
+
+    public attach(oid: string): { routine: RoutineRow, statement: Statement } | undefined {
+        const triggerFunction = this.functions.get(oid)
+        if (triggerFunction) {
+            triggerFunction.attached = true
+        }
+        return triggerFunction
+    }
+
+    /// Returns an information diagnostic on each function that no trigger was created for, as it wasn't checked.
+    public getUnattachedDiagnostics(): { statement: Statement, diagnostic: Diagnostic }[] {
+        return [...this.functions.values()].filter(({ attached }) => !attached).map(({ routine, statement }) => {
+            const diagnostic = new Diagnostic(
+                statement.location.range,
+                `${routine.function_signature} was not checked with plpgsql_check: no CREATE TRIGGER attaches it to a table. Add -- @table name to check it against a table.`,
+                DiagnosticSeverity.Information,
+            )
+            diagnostic.source = SOURCE
+            diagnostic.code = CheckCode.plpgsqlCheck
+            return { statement, diagnostic }
+        })
+    }
+}
+
+async function getCompiledFunctionDefinition(client: Client, functionSignature: string): Promise<string> {
+    try {
+        const query = `SELECT pg_get_functiondef($1::regclass::oid)`
+        const result = await client.query(query, [functionSignature])
+        return result.rows[0].pg_get_functiondef
+    } catch (e: any) {
+        throw new Error(`error getting function source: $ { e.message } `)
+    }
+}
+
+export async function snapshotRoutines(client: Client): Promise<RoutineSnapshot> {
+    const { rows } = await client.query<RoutineRow>(GET_ROUTINES_SQL)
+    return new Map(rows.map(({ oid, version }) => [oid, version]))
+}
+
+/// Finds the PL/pgSQL routines that `statements`, the prefix restored from a checkpoint, created: as they don't run again,
+/// each routine is matched by name to the last `CREATE FUNCTION` or `CREATE PROCEDURE` of it, and by the argument types
+/// if there are several of either (overloads). Routines without an unambiguous match are left out.
+export async function findRestoredRoutines(client: Client, statements: Statement[]): Promise<RestoredRoutine[]> {
+    const creates = statements.flatMap(statement => {
+        const created = statement.sql ? getCreatedObject(statement.sql) : null
+        return created && (created.kind === 'FUNCTION' || created.kind === 'PROCEDURE') ? [{ created, statement }] : []
+    }).reverse()
+    if (creates.length === 0) {
+        return []
+    }
+    const { rows } = await client.query<NamedRoutineRow>(GET_PLPGSQL_ROUTINES_SQL)
+    const types: Map<string, string | null> = new Map()
+    const resolveType = async (name: string): Promise<string | null> => {
+        if (!types.has(name)) {
+            let oid: string | null = null
+            try {
+                const result = await client.query<{ oid: string | null }>('SELECT to_regtype($1)::oid::text AS oid;', [name])
+                oid = result.rows[0].oid
+            } catch {
+                // before PostgreSQL 16, to_regtype throws on what isn't a type name at all
+            }
+            types.set(name, oid)
+        }
+        return types.get(name)!
+    }
+    const matches = ({ schema, name }: QualifiedName, row: NamedRoutineRow) => name === row.name && (!schema || schema === row.schema)
+    const restored: RestoredRoutine[] = []
+    for (const routine of rows) {
+        const named = creates.filter(({ created }) => matches(created, routine))
+        let statement: Statement | undefined
+        if (named.length === 1 && rows.filter(row => matches(named[0].created, row)).length === 1) {
+            statement = named[0].statement
+        } else {
+            for (const create of named) {
+                const declarations = getRoutineArguments(create.statement.sql!)
+                if (declarations && (await getArgumentTypes(declarations, resolveType)).includes(routine.argument_types)) {
+                    statement = create.statement
+                    break
+                }
+            }
+        }
+        if (statement) {
+            restored.push({ routine, statement, attached: routine.attached })
+        }
+    }
+    return restored
+}
+
+/// The argument types (OIDs, separated by spaces) that `pg_proc.proargtypes` has for a routine with the argument
+/// `declarations`: without and with the `OUT` arguments (which procedures have since PostgreSQL 14), or none
+/// if a type doesn't resolve.
+async function getArgumentTypes(declarations: string[], resolveType: (name: string) => Promise<string | null>): Promise<string[]> {
+    const inputs: string[] = []
+    const all: string[] = []
+    for (const declaration of declarations) {
+        const withoutDefault = declaration.replace(ARGUMENT_DEFAULT_REGEX, '')
+        const mode = withoutDefault.match(ARGUMENT_MODE_REGEX)?.[1].toUpperCase()
+        const rest = withoutDefault.replace(ARGUMENT_MODE_REGEX, '')
+        // a type, or an argument name and a type
+        const type = await resolveType(rest)
+            ?? (ARGUMENT_NAME_REGEX.test(rest) ? await resolveType(rest.replace(ARGUMENT_NAME_REGEX, '')) : null)
+        if (!type) {
+            return []
+        }
+        all.push(type)
+        if (mode !== 'OUT') {
+            inputs.push(type)
+        }
+    }
+    return [inputs.join(' '), all.join(' ')]
+}
+
+export async function snapshotTriggers(client: Client): Promise<TriggerSnapshot> {
+    const { rows } = await client.query<TriggerRow>(GET_TRIGGERS_SQL)
+    return new Map(rows.map(({ oid, version }) => [oid, version]))
+}
+
+/// Checks the PL/pgSQL functions and procedures that `statement` created or replaced since `before` with plpgsql_check,
+/// reporting every finding. Trigger functions without `@table` are checked against the tables they are attached to,
+/// or added to `triggerFunctions` to be checked once they are.
+export async function checkFunction(
+    statement: Statement,
+    client: Client,
+    positions: PositionCache,
+    before: RoutineSnapshot,
+    triggerFunctions: TriggerFunctions,
+): Promise<FunctionCheck> {
+    const check: FunctionCheck = { diagnostics: [], error: null, routines: [] }
+    const { sql } = statement
+    if (!sql || !CREATE_ROUTINE_REGEX.test(sql)) {
+        return check
+    }
+    let routines: RoutineRow[]
+    try {
+        const { rows } = await client.query<RoutineRow>(GET_ROUTINES_SQL)
+        routines = rows.filter(({ oid, version }) => before.get(oid) !== version)
+    } catch (e: any) {
+        throw new Error(`error getting created function: ${e.message}`)
+    }
+    for (const routine of routines) {
+        if (routine.language !== 'plpgsql') {
+            continue
+        }
+        check.routines.push({ oid: routine.oid, signature: routine.function_signature })
+        // event trigger functions (`event_trigger`) are checked like any other function
+        if (routine.return_type !== 'trigger') {
+            addFindings(check, await getFindings(routine, statement, client, null), statement, positions)
+            continue
+        }
+        const tableMatch = sql.match(TABLE_REGEX)
+        if (tableMatch) {
+            const table = tableMatch[2] || tableMatch[3]
+            addFindings(check, await getFindings(routine, statement, client, table), statement, positions)
+            continue
+        }
+        // e.g. `CREATE OR REPLACE` of a function that triggers already use
+        const { rows } = await client.query<{ table_name: string }>(GET_TRIGGER_TABLES_SQL, [routine.oid])
+        for (const { table_name: table } of rows) {
+            addFindings(check, await getFindings(routine, statement, client, table), statement, positions, { table })
+        }
+        triggerFunctions.add(routine, statement, rows.length > 0)
+    }
+    return check
+}
+
+/// Checks the trigger functions in `triggerFunctions` that `statement` attached to a table since `before`.
+/// Their findings are reported on the functions, without failing `statement`.
+export async function checkTriggerFunctions(
+    statement: Statement,
+    client: Client,
+    positions: PositionCache,
+    before: TriggerSnapshot,
+    triggerFunctions: TriggerFunctions,
+): Promise<TriggerFunctionCheck[]> {
+    let triggers: TriggerRow[]
+    try {
+        const { rows } = await client.query<TriggerRow>(GET_TRIGGERS_SQL)
+        triggers = rows.filter(({ oid, version }) => before.get(oid) !== version)
+    } catch (e: any) {
+        throw new Error(`error getting created trigger: ${e.message}`)
+    }
+    const checks: TriggerFunctionCheck[] = []
+    for (const { function_oid, table_name: table } of triggers) {
+        const triggerFunction = triggerFunctions.attach(function_oid)
+        if (!triggerFunction) {
+            continue
+        }
+        const findings = await getFindings(triggerFunction.routine, triggerFunction.statement, client, table)
+        const diagnostics = findings.map(finding => buildRowDiagnostic(finding, triggerFunction.statement, positions, { table, statement }))
+        checks.push({ statement: triggerFunction.statement, diagnostics })
+    }
+    return checks
+}
+
+/// Runs plpgsql_check on `routine`, created by `statement`, against `table` for trigger functions.
+async function getFindings(routine: RoutineRow, statement: Statement, client: Client, table: string | null): Promise<Finding[]> {
+    const channel = getLog()
+    const { oid, function_signature } = routine
+    let checkResult: QueryResult<CheckFunctionRow>
+    try {
+        // every finding, not just the first error, in the configured warning categories
+        const { plPgsqlCheckWarnings } = getConfig()
+        const options = [
+            'fatal_errors => false',
+            ...ALL_WARNINGS.map(warnings => `${warnings} => ${plPgsqlCheckWarnings.includes(warnings)}`),
+        ]
+        const query = table !== null
+            ? `SELECT * FROM ${PLPGSQL_CHECK_FUNCTION_TB}($1::oid::regprocedure, relid => $2, ${options.join(', ')})`
+            : `SELECT * FROM ${PLPGSQL_CHECK_FUNCTION_TB}($1::oid::regprocedure, ${options.join(', ')})`
+        const values = table !== null ? [oid, table] : [oid]
+        checkResult = await client.query(query, values)
+    } catch (e: any) {
+        throw new Error(`error running check query: ${e.message} ${e.hint}, function_signature: ${function_signature}`)
+    }
+    channel.appendLine(`plpgsql_check: ${checkResult.rows.length} finding(s) in ${function_signature}${table !== null ? ` on ${table}` : ''}`)
+    return checkResult.rows.map(row => ({
+        row,
+        severity: LEVEL_SEVERITIES[row.level] ?? DiagnosticSeverity.Warning,
+        ...getRangeInFunction(row, statement),
+    }))
+}
+
+/// Adds the first error of `findings` as the error of `check` (unless it has one), and the others as diagnostics.
+function addFindings(check: FunctionCheck, findings: Finding[], statement: Statement, positions: PositionCache, trigger?: TriggerTable) {
+    for (const finding of findings) {
+        if (finding.severity === DiagnosticSeverity.Error && !check.error) {
+            check.error = new FunctionError(finding.start + 1, finding.row)
+        } else {
+            check.diagnostics.push(buildRowDiagnostic(finding, statement, positions, trigger))
+        }
+    }
+}
+
+function buildRowDiagnostic(
+    { row, severity, start, end }: Finding,
+    statement: Statement,
+    positions: PositionCache,
+    trigger?: TriggerTable,
+): Diagnostic {
+    const { path, range } = statement.location
+    const message = trigger ? `${describeRow(row)} (trigger on ${trigger.table})` : describeRow(row)
+    const diagnostic = new Diagnostic(getSourceRange(statement, start, end, positions), row.hint ? `${message}; Hint: ${row.hint}` : message, severity)
+    diagnostic.source = SOURCE
+    diagnostic.code = getRowCode(row)
+    if (trigger?.statement) {
+        const { path: triggerPath, range: triggerRange } = trigger.statement.location
+        diagnostic.relatedInformation = [new DiagnosticRelatedInformation(triggerPath, triggerRange, `attached to ${trigger.table} here`)]
+    }
+    diagnostic.details = {
+        hint: row.hint ?? undefined,
+        detail: row.detail ?? undefined,
+        context: row.context || undefined,
+        includeChain: statement.includeChain.map(l => new DiagnosticRelatedInformation(l.path, l.range, 'included here')),
+        statement: new DiagnosticRelatedInformation(path, range, 'statement'),
+    }
+    return diagnostic
+}
+
+/// Returns the range in the file of the offsets `start` to `end` in the SQL of `statement`.
+export function getSourceRange(statement: Statement, start: number, end: number, positions: PositionCache): Range {
+    const { path, startOffset } = statement.location
+    // `sql` may have psql variables interpolated, so map the offsets back to the file
+    const sourceStart = statement.sourceOffset(start)
+    const sourceEnd = statement.sourceOffset(Math.max(end, start + 1), true)
+    return positions.getLocationFromLength(path, startOffset + sourceStart, Math.max(1, sourceEnd - sourceStart)).range
+}
+
+/**
+ * Translates line/position information from PostgreSQL's compiled function representation
+ * to the original user-defined function.
+ * 
+ * @param row - Information from plpgsql_check extension
+ * @param statement - The user-provided statement containing the original SQL
+ * @returns Object with start and end positions in the original source
+ */
+export function getRangeInFunction(
+    row: Pick<CheckFunctionRow, 'query' | 'lineno' | 'position'>,
+    statement: Statement
+): { start: number, end: number } {
+    const { sql } = statement
+    if (!sql) {
+        throw new Error('No SQL in statement')
+    }
+    const { query, lineno, position } = row
+
+    // If we have a `query` but no `position`, try to find it in the original SQL.
+    // It's not word-accurate, but narrows it down to the given `query`.
+    if (position === null && query && query.length > 0) {
+        const start = sql.indexOf(query)
+        if (start > -1) {
+            return { start, end: start + query.length }
+        }
+    }
+
+    // In plpgsql_check, `lineno`:
+    // - is 1-based
+    // - 1 starts on `AS $function$`
+    // - the function body seems to match, but the header before `AS $function$` is rewritten by Postgres
+    const sqlLines = sql.split(/\n/)
+    const sqlDollarLine = sqlLines.findIndex(l => DOLLAR_QUOTE.test(l))
+
+    // findings without a line (e.g. unused parameters) are about the function, so point at its header
+    if (lineno === null || sqlDollarLine + lineno - 1 < 0 || sqlDollarLine + lineno - 1 >= sqlLines.length) {
+        return { start: 0, end: sqlLines[0].length }
+    }
+
+    let start = 0
+    let end = 0
+    const line0 = sqlDollarLine + lineno - 1 // `lineno` is 1-based
+
+    // const deletedLines = sqlLines.splice(0, sqlDollarLine)
+
+    for (let i = 0; i < line0; i++) {
+        start += sqlLines[i].length + 1 // newline
+    }
+
+    // throw new Error(`lineno: ${lineno}, line0: ${line0}, line: ${sqlLines[line0]}`)
+
+    const line = sqlLines[line0]
+    const whitespace = line.length - line.trimStart().length
+    start += whitespace
+
+    if (position === null) {
+        end = start + line.trim().length
+        return { start, end }
+    }
+
+    start += position - 1
+
+    const keyword = sql.substring(start).match(/.+?(\b|$)/)![0]!
+    end = start + keyword.length
+
+    return { start, end }
+}
@@ -0,0 +1,77 @@
+import { Client } from 'pg'
+import { getLog } from './host'
+import { getRangeInFunction, getSourceRange } from './plpgsqlCheckFunction'
+import { PositionCache, Statement } from './splitIntoStatements'
+import { Range } from './types'
+
+const PLPGSQL_PROFILER_FUNCTION_TB: string = 'plpgsql_profiler_function_tb'
+
+/// The execution statistics of a line of a PL/pgSQL function or procedure body, from the plpgsql_check profiler.
+/// Only lines where statements start are profiled.
+export interface ProfiledLine {
+    range: Range
+    /// The `regprocedure` of the routine.
+    routine: string
+    /// The number of statements starting on the line.
+    statements: number
+    /// How often the statements on the line ran (`0` if the line isn't covered), and how many of those runs failed.
+    executions: number
+    errors: number
+    /// In milliseconds.
+    totalTime: number
+    maxTime: number
+    /// The rows processed by the statements on the line.
+    rows: number
+}
+
+/// A PL/pgSQL routine created by the file, and the statement that created it.
+export interface ProfiledRoutine {
+    signature: string
+    statement: Statement
+}
+
+interface ProfilerRow {
+    lineno: number
+    cmds_on_row: number | null
+    /// `int8` columns are strings in `pg`.
+    exec_stmts: string | null
+    exec_stmts_err: string | null
+    total_time: number | null
+    max_time: number[] | null
+    processed_rows: string[] | null
+}
+
+/// Turns on the plpgsql_check profiler for the session, so that the routines the file calls are profiled.
+/// Like any session setting, it has to be turned on again after reconnecting.
+export async function enableProfiler(client: Client) {
+    await client.query(`SELECT set_config('plpgsql_check.profiler', 'on', false);`)
+}
+
+/// Reads the profile of each routine (by OID) collected in the session, by path of the file that created it.
+export async function getProfiles(client: Client, routines: Map<string, ProfiledRoutine>, positions: PositionCache): Promise<Map<string, ProfiledLine[]>> {
+    const profiles: Map<string, ProfiledLine[]> = new Map()
+    for (const [oid, { signature, statement }] of routines) {
+        const { rows } = await client.query<ProfilerRow>(`SELECT * FROM ${PLPGSQL_PROFILER_FUNCTION_TB}($1::oid::regprocedure);`, [oid])
+        const lines: ProfiledLine[] = []
+        for (const row of rows) {
+            if (!row.cmds_on_row) {
+                continue
+            }
+            const { start, end } = getRangeInFunction({ lineno: row.lineno, position: null, query: null }, statement)
+            lines.push({
+                range: getSourceRange(statement, start, end, positions),
+                routine: signature,
+                statements: row.cmds_on_row,
+                executions: Number(row.exec_stmts ?? 0),
+                errors: Number(row.exec_stmts_err ?? 0),
+                totalTime: row.total_time ?? 0,
+                maxTime: Math.max(0, ...(row.max_time ?? []).map(Number)),
+                rows: (row.processed_rows ?? []).reduce((sum, processed) => sum + Number(processed), 0),
+            })
+        }
+        getLog().appendLine(`profiler: ${lines.filter(line => line.executions > 0).length}/${lines.length} line(s) covered in ${signature}`)
+        const { path } = statement.location
+        profiles.set(path, [...profiles.get(path) ?? [], ...lines])
+    }
+    return profiles
+}
@@ -0,0 +1,49 @@
+import { LintConfig, LintProfile } from './config'
+import { scanToken, TokenType } from './tokenizer'
+
+/// `-- @profile name` in a line comment on a line of its own. Only the file being linted can select a profile,
+/// not the files it includes, since the profile decides which server everything runs on.
+const PROFILE_DIRECTIVE_REGEX: RegExp = /^--[ \t]*(@profile(?::|[ \t]|$)[ \t]*([^\s]*))/
+
+export interface ProfileDirective {
+    name: string
+    /// The offset and length of the directive (after `--`) in the text.
+    offset: number
+    length: number
+}
+
+/// Returns the first `@profile` directive in `text`, if any, skipping the text of block comments, strings and dollar quotes.
+export function findProfileDirective(text: string): ProfileDirective | null {
+    let lineStart = true
+    for (let offset = 0; offset < text.length;) {
+        const { type, end } = scanToken(text, offset)
+        if (type === TokenType.LineComment && lineStart) {
+            const match = PROFILE_DIRECTIVE_REGEX.exec(text.substring(offset, end))
+            if (match) {
+                return { name: match[2], offset: offset + match[0].length - match[1].length, length: match[1].length }
+            }
+        }
+        // a comment is on a line of its own if only spaces and tabs come before it on the line
+        lineStart = type === TokenType.Whitespace ? lineStart || /[\r\n]/.test(text.substring(offset, end)) : false
+        offset = end
+    }
+    return null
+}
+
+/// Returns `config` with the settings of the profile `name` (by default, `config.profile`) applied.
+/// throws if there is no such profile
+export function resolveProfile(config: LintConfig, name: string = config.profile): LintConfig {
+    if (!name) {
+        return config
+    }
+    const profile = Object.hasOwn(config.profiles, name) ? config.profiles[name] : undefined
+    if (!profile) {
+        throw new Error(`unknown profile: ${name}`)
+    }
+    return { ...config, ...profile, profile: name }
+}
+
+/// Returns `profiles` without their `databaseUrl`s, e.g. for a managed cluster, which replaces every server.
+export function withoutDatabaseUrls(profiles: Record<string, LintProfile>): Record<string, LintProfile> {
+    return Object.fromEntries(Object.entries(profiles).map(([name, { databaseUrl, ...profile }]) => [name, profile]))
+}
@@ -0,0 +1,201 @@
+import * as path from 'path'
+import { pathToFileURL } from 'url'
+import { CheckCode, SOURCE } from './config'
+import { Diagnostic, DiagnosticRelatedInformation, DiagnosticSeverity, Range } from './types'
+
+const SARIF_SCHEMA: string = 'https://json.schemastore.org/sarif-2.1.0.json'
+const SARIF_VERSION: string = '2.1.0'
+const SRCROOT: string = 'SRCROOT'
+const INFORMATION_URI: string = 'https://github.com/dra11y/vscode-pglint'
+
+/// PostgreSQL's SQLSTATE classes (the first two characters), used to describe SQLSTATE rules.
+/// See https://www.postgresql.org/docs/current/errcodes-appendix.html
+const SQLSTATE_CLASSES: Record<string, string> = {
+    '01': 'Warning',
+    '02': 'No Data',
+    '03': 'SQL Statement Not Yet Complete',
+    '08': 'Connection Exception',
+    '09': 'Triggered Action Exception',
+    '0A': 'Feature Not Supported',
+    '0B': 'Invalid Transaction Initiation',
+    '0F': 'Locator Exception',
+    '0L': 'Invalid Grantor',
+    '0P': 'Invalid Role Specification',
+    '0Z': 'Diagnostics Exception',
+    '20': 'Case Not Found',
+    '21': 'Cardinality Violation',
+    '22': 'Data Exception',
+    '23': 'Integrity Constraint Violation',
+    '24': 'Invalid Cursor State',
+    '25': 'Invalid Transaction State',
+    '26': 'Invalid SQL Statement Name',
+    '27': 'Triggered Data Change Violation',
+    '28': 'Invalid Authorization Specification',
+    '2B': 'Dependent Privilege Descriptors Still Exist',
+    '2D': 'Invalid Transaction Termination',
+    '2F': 'SQL Routine Exception',
+    '34': 'Invalid Cursor Name',
+    '38': 'External Routine Exception',
+    '39': 'External Routine Invocation Exception',
+    '3B': 'Savepoint Exception',
+    '3D': 'Invalid Catalog Name',
+    '3F': 'Invalid Schema Name',
+    '40': 'Transaction Rollback',
+    '42': 'Syntax Error or Access Rule Violation',
+    '44': 'WITH CHECK OPTION Violation',
+    '53': 'Insufficient Resources',
+    '54': 'Program Limit Exceeded',
+    '55': 'Object Not In Prerequisite State',
+    '57': 'Operator Intervention',
+    '58': 'System Error',
+    '72': 'Snapshot Failure',
+    'F0': 'Configuration File Error',
+    'HV': 'Foreign Data Wrapper Error',
+    'P0': 'PL/pgSQL Error',
+    'XX': 'Internal Error',
+}
+
+const CHECK_DESCRIPTIONS: Record<string, string> = {
+    [CheckCode.directive]: 'Invalid pglint directive',
+    [CheckCode.template]: 'Template database used',
+    [CheckCode.unreachable]: 'Statements not run after a failure',
+    [CheckCode.nonTransactional]: 'Statement cannot run inside a transaction block',
+    [CheckCode.transactionControl]: 'Transaction control statement skipped',
+    [CheckCode.queryStats]: 'Query statistics',
+    [CheckCode.checkpoint]: 'Statement restored from a checkpoint',
+    [CheckCode.expectError]: 'Statement expected to fail succeeded',
+    [CheckCode.metaCommand]: 'psql meta-command not run',
+    [CheckCode.migration]: 'Previous migration failed',
+    [CheckCode.plpgsqlCheck]: 'plpgsql_check finding',
+}
+
+const SQLSTATE_REGEX: RegExp = /^[0-9A-Z]{5}$/
+
+/// The diagnostics of one or more lint runs, by file system path.
+export type LintResults = Map<string, readonly Diagnostic[]>
+
+export interface SarifOptions {
+    /// Paths below this directory are written relative to it (as `SRCROOT`), others as absolute `file:` URIs.
+    rootDir?: string
+    /// The pglint version, if known.
+    version?: string
+}
+
+/// Builds a SARIF 2.1.0 log of `results`, one result per finding.
+/// Diagnostics that only repeat a finding for the editor (`details.echo`) are folded into it as related locations,
+/// and hints (query stats, restored checkpoints) are left out.
+export function buildSarifLog(results: LintResults, { rootDir, version }: SarifOptions = {}): object {
+    const artifactLocation = (filePath: string) => {
+        const relative = rootDir ? path.relative(rootDir, filePath) : null
+        if (relative !== null && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+            return { uri: relative.split(path.sep).map(encodeURIComponent).join('/'), uriBaseId: SRCROOT }
+        }
+        return { uri: pathToFileURL(filePath).href }
+    }
+    const physicalLocation = (filePath: string, range: Range) => ({
+        artifactLocation: artifactLocation(filePath),
+        region: toRegion(range),
+    })
+    const relatedLocation = ({ path, range, message }: DiagnosticRelatedInformation, id: number, kind: string) => ({
+        id,
+        message: { text: message },
+        physicalLocation: physicalLocation(path, range),
+        properties: { kind },
+    })
+
+    const rules: Map<string, object> = new Map()
+    const sarifResults: object[] = []
+    for (const [filePath, diagnostics] of results) {
+        for (const diagnostic of diagnostics) {
+            const { range, message, severity, code, relatedInformation, details } = diagnostic
+            if (details?.echo || severity === DiagnosticSeverity.Hint) {
+                continue
+            }
+            const ruleId = code ?? SOURCE
+            if (!rules.has(ruleId)) {
+                rules.set(ruleId, buildRule(ruleId))
+            }
+
+            const related: object[] = []
+            const addRelated = (infos: DiagnosticRelatedInformation[] | undefined, kind: string) => {
+                for (const info of infos ?? []) {
+                    related.push(relatedLocation(info, related.length, kind))
+                }
+            }
+            addRelated(relatedInformation, 'related')
+            addRelated(details?.statement ? [details.statement] : [], 'statement')
+            addRelated(details?.includeChain, 'includedAt')
+            addRelated(details?.unreachable, 'unreachable')
+
+            sarifResults.push({
+                ruleId,
+                level: toLevel(severity),
+                message: { text: message },
+                locations: [{ physicalLocation: physicalLocation(filePath, range) }],
+                relatedLocations: related.length > 0 ? related : undefined,
+                properties: {
+                    hint: details?.hint,
+                    detail: details?.detail,
+                    context: details?.context,
+                    unreachable: (details?.unreachable?.length ?? 0) > 0 ? true : undefined,
+                },
+            })
+        }
+    }
+
+    return {
+        $schema: SARIF_SCHEMA,
+        version: SARIF_VERSION,
+        runs: [{
+            tool: {
+                driver: {
+                    name: SOURCE,
+                    version,
+                    informationUri: INFORMATION_URI,
+                    rules: [...rules.values()],
+                },
+            },
+            originalUriBaseIds: rootDir ? { [SRCROOT]: { uri: pathToFileURL(rootDir + path.sep).href } } : undefined,
+            columnKind: 'utf16CodeUnits',
+            results: sarifResults,
+        }],
+    }
+}
+
+function buildRule(ruleId: string): object {
+    if (SQLSTATE_REGEX.test(ruleId)) {
+        const sqlstateClass = SQLSTATE_CLASSES[ruleId.substring(0, 2)] ?? 'Unknown SQLSTATE class'
+        return {
+            id: ruleId,
+            name: `SQLSTATE ${ruleId}`,
+            shortDescription: { text: `PostgreSQL error ${ruleId} (${sqlstateClass})` },
+            helpUri: 'https://www.postgresql.org/docs/current/errcodes-appendix.html',
+        }
+    }
+    return {
+        id: ruleId,
+        name: ruleId,
+        shortDescription: { text: CHECK_DESCRIPTIONS[ruleId] ?? ruleId },
+    }
+}
+
+/// SARIF regions are 1-based; `endColumn` is exclusive like our (0-based) `end.character`.
+function toRegion({ start, end }: Range): object {
+    return {
+        startLine: start.line + 1,
+        startColumn: start.character + 1,
+        endLine: end.line + 1,
+        endColumn: end.character + 1,
+    }
+}
+
+function toLevel(severity: DiagnosticSeverity): string {
+    switch (severity) {
+        case DiagnosticSeverity.Error:
+            return 'error'
+        case DiagnosticSeverity.Warning:
+            return 'warning'
+        default:
+            return 'note'
+    }
+}
@@ -0,0 +1,36 @@
+import { Client } from 'pg'
+
+const SAVEPOINT_NAME: string = 'pglint_statement'
+
+/// Statements that would end or otherwise interfere with the transaction pglint wraps around
+/// the file in `continue` error mode. These are skipped instead of run.
+export const TRANSACTION_CONTROL_REGEX: RegExp = /^\s*(BEGIN|START\s+TRANSACTION|COMMIT|END|ROLLBACK|ABORT|SAVEPOINT|RELEASE|PREPARE\s+TRANSACTION)\b/i
+
+export async function beginTransaction(client: Client) {
+    await client.query('BEGIN')
+}
+
+/// Runs `run` inside a savepoint, rolling back to the savepoint if it throws,
+/// so that the enclosing transaction can continue with the next statement.
+export async function withSavepoint<T>(client: Client, run: () => Promise<T>): Promise<T> {
+    await client.query(`SAVEPOINT ${SAVEPOINT_NAME}`)
+    try {
+        const result = await run()
+        await client.query(`RELEASE SAVEPOINT ${SAVEPOINT_NAME}`)
+        return result
+    } catch (error: any) {
+        await client.query(`ROLLBACK TO SAVEPOINT ${SAVEPOINT_NAME}`)
+        throw error
+    }
+}
+
+/// Runs `run` between the transaction pglint wraps around the file in `continue` error mode and a new one,
+/// for statements that cannot run inside a transaction block.
+export async function withoutTransaction<T>(client: Client, run: () => Promise<T>): Promise<T> {
+    await client.query('COMMIT')
+    try {
+        return await run()
+    } finally {
+        await beginTransaction(client)
+    }
+}
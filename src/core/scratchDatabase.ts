@@ -0,0 +1,145 @@
+import { ClientConfig } from 'pg'
+import { createHash } from 'crypto'
+import { getDatabaseConfig } from './connectionConfig'
+import { getConfig, getLog } from './host'
+import { ConfigError, GeneralError, StatementError } from './errors'
+import { Statement } from './splitIntoStatements'
+import { terminateBackend } from './terminateBackend'
+import { getMaintenanceClient } from './maintenanceConnection'
+import { getTemplateVersion } from './templateVersion'
+import { quoteDatabaseName, validateDatabaseName } from './validateDatabaseName'
+
+const SCRATCH_SUFFIX: string = 'scratch'
+/// The comment on a clone of a template: the version of the template it was made from.
+const TEMPLATE_VERSION_COMMENT_PREFIX: string = 'pglint template version: '
+
+function getScratchDatabaseName(template?: string): string {
+    const { tempDatabasePrefix } = getConfig()
+    const name = `${tempDatabasePrefix}${SCRATCH_SUFFIX}`
+    if (!template) {
+        return name
+    }
+    // Template names may be quoted and contain anything, so key the clone on a hash.
+    const hash = createHash('sha1').update(template).digest('hex').substring(0, 12)
+    return `${name}_${hash}`
+}
+
+/// A scratch database taken by one lint run; `release` lets the next run use it.
+export interface ScratchDatabase {
+    clientConfig: ClientConfig
+    release(): void
+}
+
+/// The latest run to take each scratch database, by `databaseUrl` and name: it resolves when that run releases it.
+const _turns: Map<string, Promise<void>> = new Map()
+
+/// Waits until no other run uses the scratch database `key`, and takes it.
+async function takeTurn(key: string): Promise<() => void> {
+    const previous = _turns.get(key) ?? Promise.resolve()
+    let release!: () => void
+    const turn = new Promise<void>(resolve => {
+        release = resolve
+    })
+    _turns.set(key, turn)
+    await previous
+    return () => {
+        release()
+        if (_turns.get(key) === turn) {
+            _turns.delete(key)
+        }
+    }
+}
+
+/// Takes the long-lived scratch database used in `transaction` isolation, once no other lint run uses it (the runs
+/// would see or block on each other's uncommitted changes), creating it (as a clone of `@template`, if any) if it does
+/// not exist yet. A clone is re-created when the template changed since it was made (see `getTemplateVersion`).
+export async function acquireScratchDatabase(templateStatement?: Statement): Promise<ScratchDatabase> {
+    const channel = getLog()
+    const config = getConfig()
+    const template = templateStatement?.template
+
+    if (template) {
+        try {
+            validateDatabaseName(template)
+        } catch (error: any) {
+            throw new StatementError({ message: `invalid template name: ${template}`, statement: templateStatement, error })
+        }
+    }
+
+    const database = getScratchDatabaseName(template)
+    const quotedDatabase = quoteDatabaseName(database)
+    try {
+        validateDatabaseName(quotedDatabase)
+    } catch (error: any) {
+        throw new ConfigError({
+            message: `invalid database prefix`,
+            key: 'tempDatabasePrefix',
+            value: config.tempDatabasePrefix,
+            cause: error,
+        })
+    }
+
+    const release = await takeTurn(`${config.databaseUrl}\0${database}`)
+    let sql = `CREATE DATABASE ${quotedDatabase}`
+    try {
+        const client = await getMaintenanceClient()
+        const version = template ? await getTemplateVersion(client, template) : null
+        const existing = await client.query(
+            `SELECT shobj_description(oid, 'pg_database') AS comment FROM pg_database WHERE datname = $1;`,
+            [database],
+        )
+        const comment = version ? `${TEMPLATE_VERSION_COMMENT_PREFIX}${version}` : null
+        const stale = existing.rowCount !== 0 && existing.rows[0].comment !== comment
+        if (stale) {
+            channel.appendLine(`Dropping scratch database ${quotedDatabase}, as its template changed`)
+            await client.query(`DROP DATABASE ${quotedDatabase};`)
+        }
+        if (existing.rowCount === 0 || stale) {
+            if (template) {
+                if (config.autoTerminateTemplateConnections) {
+                    await terminateBackend(template)
+                }
+                sql += ` TEMPLATE ${template}`
+            }
+            channel.appendLine(`Creating scratch database: ${quotedDatabase}`)
+            await client.query(sql)
+            if (comment) {
+                await client.query(`COMMENT ON DATABASE ${quotedDatabase} IS '${comment}';`)
+            }
+        }
+        return { clientConfig: await getDatabaseConfig(client, database), release }
+    } catch (error: any) {
+        release()
+        if (template) {
+            throw new StatementError({
+                message: error.message,
+                statement: new Statement({
+                    ...templateStatement,
+                    sql,
+                }),
+                error,
+            })
+        }
+        throw new GeneralError({
+            message: `Failed to create scratch database: ${database}, url: ${config.databaseUrl}, sql: ${sql}`,
+            cause: error,
+        })
+    }
+}
+
+/// Drops all scratch databases, e.g. so that template clones are re-created after the template changed.
+export async function dropScratchDatabases(): Promise<string[]> {
+    const channel = getLog()
+    const name = getScratchDatabaseName()
+    const client = await getMaintenanceClient()
+    const result = await client.query(
+        `SELECT datname FROM pg_database WHERE datname = $1 OR left(datname, length($2)) = $2;`,
+        [name, `${name}_`],
+    )
+    const databases: string[] = result.rows.map(row => row.datname)
+    for (const database of databases) {
+        channel.appendLine(`Dropping scratch database: ${database}`)
+        await client.query(`DROP DATABASE IF EXISTS ${quoteDatabaseName(database)};`)
+    }
+    return databases
+}
@@ -0,0 +1,86 @@
+import { Client } from 'pg'
+
+/// Configuration parameter names, optionally qualified for extensions (`plpgsql.extra_warnings`).
+const PARAMETER_NAME_REGEX: RegExp = /^[A-Za-z_][A-Za-z0-9_$]*(\.[A-Za-z_][A-Za-z0-9_$]*)*$/
+const UNQUOTED_IDENTIFIER_REGEX: RegExp = /^[A-Za-z_][A-Za-z0-9_$]*$/
+const QUOTED_IDENTIFIER_REGEX: RegExp = /^"((?:[^"]|"")+)"$/
+/// `name = value` or `name TO value`, like `SET`.
+const ASSIGNMENT_REGEX: RegExp = /^([^\s=]+)\s*(?:=|\s+TO\s)\s*(.*)$/i
+const QUOTED_VALUE_REGEX: RegExp = /^'((?:[^']|'')*)'$/
+/// A comma followed by an even number of double quotes, i.e. not inside a quoted identifier.
+const LIST_SEPARATOR_REGEX: RegExp = /,(?=(?:[^"]*"[^"]*")*[^"]*$)/
+
+/// A session setting made by an `@role`, `@set` or `@search_path` directive,
+/// applied with `set_config(name, value, false)` like the corresponding `SET`.
+export interface SessionSetting {
+    /// The directive as written, e.g. `@role app_user`.
+    directive: string
+    name: string
+    value: string
+}
+
+/// Returns the name an identifier stands for: quoted identifiers as written (without the quotes),
+/// unquoted ones folded to lower case.
+/// throws
+function parseIdentifier(text: string, what: string): string {
+    const quoted = text.match(QUOTED_IDENTIFIER_REGEX)
+    if (quoted) {
+        return quoted[1].replace(/""/g, '"')
+    }
+    if (!UNQUOTED_IDENTIFIER_REGEX.test(text)) {
+        throw new Error(`${what} must either be quoted, or start with a letter or underscore and contain only letters, numbers, underscores and dollar signs`)
+    }
+    return text.toLowerCase()
+}
+
+/// `@role name`: `SET ROLE name`.
+/// throws
+export function parseRoleDirective(text: string): SessionSetting {
+    const role = text.trim()
+    if (!role) {
+        throw new Error('@role requires a role name')
+    }
+    return { directive: `@role ${role}`, name: 'role', value: parseIdentifier(role, 'Role name') }
+}
+
+/// `@search_path schema, ...`: `SET search_path TO schema, ...`. `$user` stands for the current role's schema.
+/// throws
+export function parseSearchPathDirective(text: string): SessionSetting {
+    const list = text.trim()
+    if (!list) {
+        throw new Error('@search_path requires at least one schema')
+    }
+    const schemas = list.split(LIST_SEPARATOR_REGEX).map(s => s.trim())
+    for (const schema of schemas) {
+        if (schema !== '$user') {
+            parseIdentifier(schema, 'Schema name')
+        }
+    }
+    // the server parses the list itself, so quoted names stay quoted
+    return { directive: `@search_path ${list}`, name: 'search_path', value: schemas.join(', ') }
+}
+
+/// `@set name = value` or `@set name TO value`, where the value may be a quoted literal.
+/// throws
+export function parseSetDirective(text: string): SessionSetting {
+    const assignment = text.trim()
+    const match = assignment.match(ASSIGNMENT_REGEX)
+    if (!match || !match[2].trim()) {
+        throw new Error('@set must be given as name = value')
+    }
+    const name = match[1]
+    if (!PARAMETER_NAME_REGEX.test(name)) {
+        throw new Error(`invalid configuration parameter name: ${name}`)
+    }
+    const value = match[2].trim()
+    const quoted = value.match(QUOTED_VALUE_REGEX)
+    return {
+        directive: `@set ${assignment}`,
+        name: name.toLowerCase(),
+        value: quoted ? quoted[1].replace(/''/g, "'") : value,
+    }
+}
+
+export async function applySessionSetting(client: Client, { name, value }: SessionSetting) {
+    await client.query('SELECT set_config($1, $2, false)', [name, value])
+}
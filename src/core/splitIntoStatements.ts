@@ -0,0 +1,702 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { ExpectedError, parseExpectedError } from './expectError'
+import { expandGlob, isGlob, matchesGlob } from './glob'
+import { getConfig, getLog } from './host'
+import { parseRoleDirective, parseSearchPathDirective, parseSetDirective, SessionSetting } from './sessionSettings'
+import { scanToken, StatementDepth, TokenType } from './tokenizer'
+import { Position, Range } from './types'
+import { validateDatabaseName } from './validateDatabaseName'
+
+const TEMPLATE_PREFIX: RegExp = /^@template(:|\s)/
+const INCLUDE_PREFIX: RegExp = /^@include(:|\s)/
+const EXPECT_ERROR_PREFIX: RegExp = /^@expect-error(:|\s|$)/
+/// Session directives, each parsed into a `SessionSetting`.
+const SESSION_DIRECTIVES: { prefix: RegExp, parse: (text: string) => SessionSetting }[] = [
+    { prefix: /^@role(:|\s|$)/, parse: parseRoleDirective },
+    { prefix: /^@set(:|\s|$)/, parse: parseSetDirective },
+    { prefix: /^@search_path(:|\s|$)/, parse: parseSearchPathDirective },
+]
+const EXPECT_ERROR_WITHOUT_STATEMENT: string = '@expect-error must be followed by a statement in the same file.'
+/// The files that an `@include` of a directory includes.
+const DIRECTORY_INCLUDE_GLOB: string = '*.sql'
+/// A psql meta-command: a backslash and the command name, up to the end of the line.
+const META_COMMAND_REGEX: RegExp = /^\\([A-Za-z_]+|[^\sA-Za-z_])?([^\r\n]*)/
+/// `\i` resolves relative to the working directory of psql (here: the directory of the root file), `\ir` to the including file.
+const INCLUDE_META_COMMANDS: string[] = ['i', 'include']
+const INCLUDE_RELATIVE_META_COMMANDS: string[] = ['ir', 'include_relative']
+const COPY_META_COMMAND: string = 'copy'
+/// Meta-commands that send the statement before them, which is split off as a statement of its own anyway.
+const SEND_META_COMMANDS: string[] = ['g', 'gx', 'gset']
+const COPY_FROM_STDIN_REGEX: RegExp = /^\s*COPY\b[\s\S]*\bFROM\s+STDIN\b/i
+const COPY_DATA_END: string = '\\.'
+/// psql variable references: `:name`, `:'name'` (as a literal), `:"name"` (as an identifier) and `:{?name}` (whether it is set).
+const VARIABLE_REGEX: RegExp = /^:(?:([A-Za-z0-9_]+)|'([A-Za-z0-9_]+)'|"([A-Za-z0-9_]+)"|\{\?([A-Za-z0-9_]+)\})/
+/// The pieces of a meta-command argument: a quoted string, a variable reference, whitespace (between arguments), or anything else.
+const META_ARGUMENT_REGEX: RegExp = /'((?:[^']|'')*)'?|(:(?:[A-Za-z0-9_]+|'[A-Za-z0-9_]+'|"[A-Za-z0-9_]+"|\{\?[A-Za-z0-9_]+\}))|(\s+)|([^\s':]+|:)/g
+const SET_META_COMMAND: string = 'set'
+const UNSET_META_COMMAND: string = 'unset'
+export const TEMPLATE_DIRECTIVE_ERROR_FIRST: string = 'Only one template directive is allowed, and it must come before any other statements.'
+
+interface IncludeFile {
+    includePath: string
+    text: string
+}
+
+function positionToString(position: Position) {
+    const { line, character } = position
+    return `[${line}:${character}]`
+}
+
+function rangeToString(range: Range) {
+    const [start, end] = [positionToString(range.start), positionToString(range.end)]
+    return `${start}-${end}`
+}
+
+export class Location {
+    /// The file system path of the file.
+    public path: string
+    public range: Range
+    public startOffset: number
+    public length: number
+
+    constructor({
+        path,
+        range,
+        startOffset,
+        length,
+    }: {
+        path: string,
+        range: Range,
+        startOffset: number,
+        length: number,
+    }) {
+        this.path = path
+        this.range = range
+        this.startOffset = startOffset
+        this.length = length
+    }
+
+    toJSON() {
+        const range = rangeToString(this.range)
+        const {
+            path,
+            startOffset,
+            length,
+        } = this
+        return {
+            path,
+            range,
+            startOffset,
+            length,
+        }
+    }
+}
+
+/// A psql variable reference replaced by its value in `Statement.sql`.
+export interface Substitution {
+    /// Offset of the value in `sql`.
+    offset: number
+    /// Length of the value in `sql`.
+    length: number
+    /// Length of the reference (e.g. `:'name'`) in the file.
+    sourceLength: number
+}
+
+/// State shared by a file and the files it includes, like a psql session running them.
+export interface SplitContext {
+    /// Stands in for the working directory of psql, against which `\i` paths are resolved.
+    rootDirectory: string
+    /// psql variables: `pglint.variables`, then changed by `\set` and `\unset`.
+    variables: Map<string, string>
+    /// The files being split, from the root file to the current one, to detect include cycles.
+    includeStack: string[]
+}
+
+export class Statement {
+    /// The `@include` directive in the root file that (directly or through nested includes) included the statement.
+    public includedAt?: Location
+    /// All `@include` directives through which the statement was included, innermost first.
+    public includeChain: Location[] = []
+    public location: Location
+    public sql?: string
+    public error?: string
+    public template?: string
+    /// A psql meta-command (e.g. `\connect db`) other than `\i`/`\ir`, which are split as includes.
+    public metaCommand?: string
+    /// The inline data of a `COPY ... FROM stdin` statement, up to (not including) the terminating `\.` line.
+    public copyData?: string
+    /// The psql variables interpolated into `sql`, in order.
+    public substitutions: Substitution[]
+    /// Set by an `@expect-error` directive before the statement.
+    public expectError?: ExpectedError
+    /// Set by an `@role`, `@set` or `@search_path` directive, which takes effect from there on.
+    public session?: SessionSetting
+
+    constructor({
+        includedAt,
+        location,
+        sql,
+        error,
+        template,
+        metaCommand,
+        copyData,
+        substitutions,
+        expectError,
+        session,
+    }: {
+        includedAt?: Location,
+        location: Location,
+        sql?: string,
+        error?: string,
+        template?: string,
+        metaCommand?: string,
+        copyData?: string,
+        substitutions?: Substitution[],
+        expectError?: ExpectedError,
+        session?: SessionSetting,
+    }) {
+        this.includedAt = includedAt
+        this.location = location
+        this.sql = sql
+        this.error = error
+        this.template = template
+        this.metaCommand = metaCommand
+        this.copyData = copyData
+        this.substitutions = substitutions ?? []
+        this.expectError = expectError
+        this.session = session
+    }
+
+    /// Maps an offset in `sql` to the offset in the file, relative to the start of the statement,
+    /// undoing variable substitutions. An offset inside a substituted value maps to the start
+    /// (or with `end`, the end) of its reference.
+    public sourceOffset(sqlOffset: number, end: boolean = false): number {
+        let delta = 0
+        for (const { offset, length, sourceLength } of this.substitutions) {
+            if (sqlOffset < offset || (end && sqlOffset === offset)) {
+                break
+            }
+            if (sqlOffset < offset + length) {
+                return offset + delta + (end ? sourceLength : 0)
+            }
+            delta += sourceLength - length
+        }
+        return sqlOffset + delta
+    }
+
+    toJSON() {
+        const {
+            includedAt,
+            location,
+            sql,
+            template,
+            error,
+            metaCommand,
+            session,
+        } = this
+        return {
+            sql,
+            template,
+            error,
+            metaCommand,
+            session,
+            includedAt,
+            location,
+        }
+    }
+}
+
+export function quote(s: string) {
+    return s.startsWith('"') ? s : `"${s}"`
+}
+
+export function quotedEqual(a: string, b: string) {
+    return quote(a) === quote(b)
+}
+
+/// Line starts and lengths of the files in one lint run, used to convert offsets to positions.
+/// Each run has its own cache, so concurrent runs never see each other's (possibly different) file contents.
+export class PositionCache {
+    private lineStarts: Map<string, number[]> = new Map()
+    private fileLengths: Map<string, number> = new Map()
+
+    public cacheLineStarts(filePath: string, text: string) {
+        if (this.lineStarts.has(filePath)) {
+            return
+        }
+        this.fileLengths.set(filePath, text.length)
+        const length = text.length
+        // line numbers are 0-based, like in vscode
+        let starts = []
+        for (let i = 0; i < length; i++) {
+            if (text[i] === '\n') {
+                starts.push(i + 1)
+            } else if (text[i] === '\r' && text.length > i + 1 && text[i + 1] === '\n') {
+                starts.push(i + 2)
+                i++
+            }
+        }
+        this.lineStarts.set(filePath, starts)
+    }
+
+    public getLastPositionInFile(filePath: string): Position {
+        const length = this.fileLengths.get(filePath)
+        if (!length) {
+            throw new Error(`no length in cache for ${filePath}`)
+        }
+        return this.getPosition(filePath, length - 1)
+    }
+
+    public getPosition(filePath: string, offset: number): Position {
+        const starts = this.lineStarts.get(filePath)
+        if (!starts) {
+            throw new Error(`lineStarts cache missing for path: ${filePath}`)
+        }
+        const filtered = starts.filter(s => s <= offset)
+        const line = filtered.length
+        const lineStart = line > 0 ? filtered[line - 1] : 0
+
+        return new Position(line, offset - lineStart)
+    }
+
+    public getLocationFromEndOffset(filePath: string, startOffset: number, endOffset: number): Location {
+        const start = this.getPosition(filePath, startOffset)
+        const end = this.getPosition(filePath, endOffset)
+        const range = new Range(start, end)
+        const length = endOffset - startOffset
+        return new Location({
+            path: filePath,
+            range,
+            startOffset,
+            length,
+        })
+    }
+
+    public getLocationFromLength(filePath: string, startOffset: number, length: number): Location {
+        return this.getLocationFromEndOffset(filePath, startOffset, startOffset + length)
+    }
+}
+
+/// Returns the files that `directive`, the string **after** the `INCLUDE_PREFIX` is removed (or the file of an `\i`),
+/// refers to, resolved relative to `dirPath`. With `expand` (for `@include`), it may also be a directory
+/// (meaning its `*.sql` files) or a glob, optionally followed by `!pattern`s of files to leave out.
+/// The files are in sorted order, except those in `skip` (the files being included already) that a directory or glob matches.
+/// throws
+export async function resolveIncludePaths(directive: string, dirPath: string, expand: boolean, skip: string[] = []): Promise<string[]> {
+    if (!directive.trim()) {
+        throw new Error('include directive must be a non-empty string')
+    }
+    const channel = getLog()
+    const [pattern, ...ignores] = expand ? directive.trim().split(/\s+!/) : [directive.trim()]
+    let includePaths: string[]
+    if (expand && isGlob(pattern)) {
+        includePaths = (await expandGlob(pattern, dirPath)).filter(p => !skip.includes(p))
+    } else {
+        const resolvedPath = path.resolve(dirPath, path.normalize(pattern))
+        const stat = await fs.stat(resolvedPath)
+        if (expand && stat.isDirectory()) {
+            includePaths = (await expandGlob(DIRECTORY_INCLUDE_GLOB, resolvedPath)).filter(p => !skip.includes(p))
+        } else if (stat.isFile()) {
+            includePaths = [resolvedPath]
+        } else {
+            throw new Error(`include path is not a file: ${resolvedPath}`)
+        }
+    }
+    includePaths = includePaths.filter(p => !ignores.some(ignore => matchesGlob(p, ignore, dirPath)))
+    channel.appendLine(`directive: ${directive}\ndirPath: ${dirPath}\nincludePaths: ${includePaths.join(', ')}`)
+    if (includePaths.length === 0) {
+        throw new Error(`no files to include match: ${directive.trim()}`)
+    }
+    return includePaths
+}
+
+/// Reads the files of an include directive (see `resolveIncludePaths`).
+/// throws
+async function tryInclude(directive: string, dirPath: string, expand: boolean, skip: string[]): Promise<IncludeFile[]> {
+    const includePaths = await resolveIncludePaths(directive, dirPath, expand, skip)
+    return Promise.all(includePaths.map(async includePath => ({
+        includePath,
+        text: (await fs.readFile(includePath)).toString(),
+    })))
+}
+
+/// Returns the paths of the files that `sql`, the contents of the file at `filePath`,
+/// `@include`s directly or through nested includes.
+export async function getIncludedPaths(filePath: string, sql: string): Promise<Set<string>> {
+    const statements = await splitIntoStatements(filePath, sql, new PositionCache())
+    return new Set(statements
+        .flatMap(({ location, includeChain }) => [location.path, ...includeChain.map(l => l.path)])
+        .filter(p => p !== filePath))
+}
+
+/// Quotes `value` as a string literal, like `PQescapeLiteral`.
+function quoteLiteral(value: string): string {
+    const quoted = `'${value.replace(/'/g, "''")}'`
+    return value.includes('\\') ? ` E${quoted.replace(/\\/g, '\\\\')}` : quoted
+}
+
+/// Quotes `value` as an identifier, like `PQescapeIdentifier`.
+function quoteIdentifier(value: string): string {
+    return `"${value.replace(/"/g, '""')}"`
+}
+
+/// Returns the value of the variable `reference` (e.g. `:'name'`), quoted as requested, or `null` if it is not set.
+function interpolateVariable(reference: string, variables: Map<string, string>): string | null {
+    const [, plain, literal, identifier, test] = reference.match(VARIABLE_REGEX) ?? []
+    if (test !== undefined) {
+        return variables.has(test) ? 'TRUE' : 'FALSE'
+    }
+    const value = variables.get(plain ?? literal ?? identifier ?? '')
+    if (value === undefined) {
+        return null
+    }
+    return literal !== undefined ? quoteLiteral(value) : identifier !== undefined ? quoteIdentifier(value) : value
+}
+
+/// Splits the arguments of a psql meta-command, unquoting single-quoted parts and interpolating variables.
+function parseMetaArguments(argument: string, variables: Map<string, string>): string[] {
+    const args: string[] = []
+    let current: string | null = null
+    for (const [piece, quoted, reference, whitespace] of argument.matchAll(META_ARGUMENT_REGEX)) {
+        if (whitespace !== undefined) {
+            if (current !== null) {
+                args.push(current)
+            }
+            current = null
+            continue
+        }
+        const value = quoted !== undefined
+            ? quoted.replace(/''/g, "'")
+            : reference !== undefined ? interpolateVariable(reference, variables) ?? reference : piece
+        current = (current ?? '') + value
+    }
+    if (current !== null) {
+        args.push(current)
+    }
+    return args
+}
+
+/// Splits `sql`, the contents of the file at `filePath`, into statements, directives and psql meta-commands,
+/// recursively splitting `@include`d (and `\i`/`\ir`) files and interpolating psql variables.
+/// `context` is shared with the included files, and starts out from `pglint.variables` for a root file.
+export async function splitIntoStatements(filePath: string, sql: string, positions: PositionCache, context?: SplitContext): Promise<Statement[]> {
+    const channel = getLog()
+    positions.cacheLineStarts(filePath, sql)
+    let statements: Statement[] = []
+    let currentStart = 0
+    let currentSql = ''
+    let substitutions: Substitution[] = []
+    const { rootDirectory, variables, includeStack }: SplitContext = context ?? {
+        rootDirectory: path.dirname(filePath),
+        variables: new Map(Object.entries(getConfig().variables)),
+        includeStack: [path.resolve(filePath)],
+    }
+
+    let offset = 0
+    let isStatement = false
+    let depth = new StatementDepth()
+    /// An `@expect-error` waiting for the next statement.
+    let expectError: ExpectedError | undefined
+
+    const pushStatement = (endOffset: number): Statement | null => {
+        let statement: Statement | null = null
+        if (currentSql.trim()) {
+            const location = positions.getLocationFromEndOffset(filePath, currentStart, endOffset)
+            statement = new Statement({
+                location,
+                sql: currentSql,
+                substitutions,
+                expectError,
+            })
+            statements.push(statement)
+            expectError = undefined
+        }
+        currentStart = endOffset + 1
+        currentSql = ''
+        substitutions = []
+        depth = new StatementDepth()
+        return statement
+    }
+
+    /// Splits the file(s) of `directive` (relative to `dirPath`, see `tryInclude`) into statements included at `location`.
+    /// Returns `false` (after pushing an error statement) if it can't be read.
+    const include = async (location: Location, directive: string, dirPath: string, expand: boolean): Promise<boolean> => {
+        try {
+            for (const { includePath, text } of await tryInclude(directive, dirPath, expand, includeStack)) {
+                if (includeStack.includes(includePath)) {
+                    const cycle = [...includeStack.slice(includeStack.indexOf(includePath)), includePath]
+                    throw new Error(`include cycle: ${cycle.map(p => path.relative(rootDirectory, p)).join(' -> ')}`)
+                }
+                let includeStatements = await splitIntoStatements(includePath, text, positions, {
+                    rootDirectory,
+                    variables,
+                    includeStack: [...includeStack, includePath],
+                })
+                for (let includeStatement of includeStatements) {
+                    includeStatement.includedAt = location
+                    includeStatement.includeChain.push(location)
+                }
+                statements.push(...includeStatements)
+            }
+            return true
+        } catch (e: any) {
+            statements.push(new Statement({
+                location,
+                error: e.message ?? 'invalid include directive',
+            }))
+            return false
+        }
+    }
+
+    const length = sql.length
+    const nextLineStart = (from: number) => {
+        const newline = sql.indexOf('\n', from)
+        return newline === -1 ? length : newline + 1
+    }
+
+    /// Reads the data lines of a `COPY ... FROM stdin` statement, which start on the line after it,
+    /// and returns the offset after the terminating `\.` line (or the end of the file, like psql).
+    const readCopyData = (statement: Statement, from: number): number => {
+        let data = ''
+        let lineStart = nextLineStart(from)
+        while (lineStart < length) {
+            const lineEnd = nextLineStart(lineStart)
+            const line = sql.substring(lineStart, lineEnd).replace(/\r?\n$/, '')
+            lineStart = lineEnd
+            if (line === COPY_DATA_END) {
+                break
+            }
+            data += `${line}\n`
+        }
+        statement.copyData = data
+        return lineStart
+    }
+
+    while (offset < length) {
+        const char = sql[offset]
+        const nextChar = offset < length - 1 ? sql[offset + 1] : ''
+
+        // Process between statements
+        if (!isStatement) {
+            // Skip whitespace between statements
+            if (/[\s\r\n]/.test(char)) {
+                offset++
+                continue
+            }
+
+            // Check for line comment start (--)
+            if (char === '-' && nextChar === '-') {
+                // Process line comment directive
+                offset += 2
+                const commentLine = sql.substring(offset).match(/[^\r\n]*(\r?\n|$)/)?.[0] ?? ''
+                let commentText = commentLine.trimStart()
+                const startOffset = offset + (commentLine.length - commentText.length)
+                commentText = commentText.trimEnd()
+                offset += commentLine.length
+
+                const sessionDirective = SESSION_DIRECTIVES.find(({ prefix }) => prefix.test(commentText))
+                if (!INCLUDE_PREFIX.test(commentText) && !TEMPLATE_PREFIX.test(commentText) && !EXPECT_ERROR_PREFIX.test(commentText) && !sessionDirective) {
+                    continue
+                }
+
+                const location = positions.getLocationFromLength(filePath, startOffset, commentText.length)
+
+                if (sessionDirective) {
+                    try {
+                        const session = sessionDirective.parse(commentText.replace(sessionDirective.prefix, ''))
+                        statements.push(new Statement({ location, session }))
+                    } catch (e: any) {
+                        statements.push(new Statement({
+                            location,
+                            error: e.message ?? 'invalid session directive',
+                        }))
+                        return statements
+                    }
+                    continue
+                }
+
+                if (EXPECT_ERROR_PREFIX.test(commentText)) {
+                    try {
+                        if (expectError) {
+                            throw new Error(EXPECT_ERROR_WITHOUT_STATEMENT)
+                        }
+                        expectError = parseExpectedError(commentText.replace(EXPECT_ERROR_PREFIX, ''), location)
+                    } catch (e: any) {
+                        statements.push(new Statement({
+                            location,
+                            error: e.message ?? 'invalid expect-error directive',
+                        }))
+                        return statements
+                    }
+                    continue
+                }
+                const directive = commentText
+                    .replace(INCLUDE_PREFIX, '')
+                    .replace(TEMPLATE_PREFIX, '')
+
+                if (INCLUDE_PREFIX.test(commentText)) {
+                    if (!await include(location, directive, path.dirname(filePath), true)) {
+                        return statements
+                    }
+                    continue
+                }
+
+                if (TEMPLATE_PREFIX.test(commentText)) {
+                    const template = directive.trim()
+
+                    try {
+                        validateDatabaseName(template)
+                    } catch (e: any) {
+                        statements.push(new Statement({
+                            location,
+                            error: e.message ?? 'invalid template directive',
+                        }))
+                        return statements
+                    }
+
+                    if (statements.length > 0) {
+                        const templateStatements = statements.filter(s => !!s.template)
+                        if (templateStatements.length > 0 && templateStatements.some(s => !quotedEqual(template, s.template!))) {
+                            statements.push(new Statement({
+                                location,
+                                error: TEMPLATE_DIRECTIVE_ERROR_FIRST,
+                            }))
+                            return statements
+                        }
+                    }
+
+                    statements.push(new Statement({
+                        location,
+                        template,
+                    }))
+                    continue
+                }
+                continue
+            }
+
+            // Skip block comments, which may be nested
+            if (char === '/' && nextChar === '*') {
+                offset = scanToken(sql, offset).end
+                continue
+            }
+
+            // psql meta-commands run to the end of the line
+            if (char === '\\') {
+                const [commandLine, name = '', argument] = sql.substring(offset).match(META_COMMAND_REGEX)!
+                const location = positions.getLocationFromLength(filePath, offset, commandLine.trimEnd().length)
+                offset += commandLine.length
+
+                if (INCLUDE_META_COMMANDS.includes(name) || INCLUDE_RELATIVE_META_COMMANDS.includes(name)) {
+                    const dirPath = INCLUDE_RELATIVE_META_COMMANDS.includes(name) ? path.dirname(filePath) : rootDirectory
+                    if (!await include(location, parseMetaArguments(argument, variables)[0] ?? '', dirPath, false)) {
+                        return statements
+                    }
+                    continue
+                }
+
+                // `\copy ... from stdin` reads its data from the script too, so it runs as `COPY ... FROM STDIN`
+                const copySql = `COPY ${argument.trim()}`
+                if (name === COPY_META_COMMAND && COPY_FROM_STDIN_REGEX.test(copySql)) {
+                    const statement = new Statement({
+                        location,
+                        sql: copySql,
+                        expectError,
+                    })
+                    statements.push(statement)
+                    expectError = undefined
+                    offset = readCopyData(statement, offset)
+                    continue
+                }
+
+                if (SEND_META_COMMANDS.includes(name)) {
+                    continue
+                }
+
+                if (name === SET_META_COMMAND || name === UNSET_META_COMMAND) {
+                    const [variable, ...values] = parseMetaArguments(argument, variables)
+                    // without a name, `\set` lists the variables
+                    if (variable !== undefined) {
+                        if (name === SET_META_COMMAND) {
+                            variables.set(variable, values.join(''))
+                        } else {
+                            variables.delete(variable)
+                        }
+                    }
+                    continue
+                }
+
+                statements.push(new Statement({
+                    location,
+                    metaCommand: commandLine.trimEnd(),
+                }))
+                continue
+            }
+
+            // Start new statement
+            currentStart = offset
+            isStatement = true
+        }
+
+        // Handle the statement, token by token
+        if (isStatement) {
+            const token = scanToken(sql, offset)
+            const text = sql.substring(token.start, token.end)
+
+            // A psql meta-command ends the statement before it (`\g` sends it)
+            if (token.type === TokenType.Backslash) {
+                pushStatement(offset - 1)
+                isStatement = false
+                continue
+            }
+
+            // psql variables are interpolated outside quotes and comments
+            if (token.type === TokenType.Colon) {
+                const reference = sql.substring(offset).match(VARIABLE_REGEX)?.[0]
+                const value = reference ? interpolateVariable(reference, variables) : null
+                if (reference && value !== null) {
+                    substitutions.push({
+                        offset: currentSql.length,
+                        length: value.length,
+                        sourceLength: reference.length,
+                    })
+                    currentSql += value
+                    offset += reference.length
+                    continue
+                }
+            }
+
+            // Split on semicolons, except inside parentheses and `BEGIN ATOMIC ... END` bodies
+            if (token.type === TokenType.Semicolon && depth.isTopLevel) {
+                currentSql += text
+                const isCopyFromStdin = COPY_FROM_STDIN_REGEX.test(currentSql)
+                const statement = pushStatement(offset)
+                isStatement = false
+                offset = token.end
+                if (isCopyFromStdin && statement) {
+                    offset = readCopyData(statement, offset)
+                    currentStart = offset
+                }
+                continue
+            }
+
+            depth.add(token.type, text)
+            currentSql += text
+            offset = token.end
+        }
+    }
+
+    // Add final statement
+    if (currentSql.trim()) {
+        pushStatement(offset - 1)
+    }
+
+    if (expectError) {
+        statements.push(new Statement({
+            location: expectError.location,
+            error: EXPECT_ERROR_WITHOUT_STATEMENT,
+        }))
+    }
+
+    return statements
+}
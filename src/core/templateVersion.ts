@@ -0,0 +1,22 @@
+import { Client } from 'pg'
+import { unquoteDatabaseName } from './validateDatabaseName'
+
+/// The oid and row version of the template, and the number of rows written in it: anything that changes it (recreating
+/// or altering it, or changing a table or the schema inside it) changes the version, while reads and vacuuming don't.
+const GET_TEMPLATE_VERSION_SQL: string = `--sql
+SELECT
+    d.oid::text || ':' || d.xmin::text || ':' || coalesce(s.tup_inserted + s.tup_updated + s.tup_deleted, 0)::text AS version
+FROM
+    pg_database d
+    LEFT JOIN pg_stat_database s ON s.datid = d.oid
+WHERE
+    d.datname = $1;`
+
+/// Returns the version of the `@template` database `template` (as written in the directive), to tell whether
+/// a clone of it is stale without connecting to it, or `null` if it doesn't exist.
+/// Writes inside the template count once the server has reported its statistics (at the latest when the session ends),
+/// and so do rolled-back ones, which only makes clones be re-created.
+export async function getTemplateVersion(client: Client, template: string): Promise<string | null> {
+    const result = await client.query<{ version: string }>(GET_TEMPLATE_VERSION_SQL, [unquoteDatabaseName(template)])
+    return result.rows[0]?.version ?? null
+}
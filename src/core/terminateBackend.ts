@@ -0,0 +1,38 @@
+import { connectWithConfig, getConnectionConfig } from './connectionConfig'
+import { getLog, notify } from './host'
+import { getMaintenanceClient } from './maintenanceConnection'
+
+export async function terminateBackend(database: string) {
+    const channel = getLog()
+
+    const sql = `--sql
+        SELECT pg_terminate_backend(pid)
+            FROM pg_stat_activity
+            WHERE datname = '${database}' AND pid <> pg_backend_pid();`
+
+    try {
+        const client = await getMaintenanceClient()
+        channel.appendLine(`Terminating any active connections to ${database} ...`)
+        await client.query(sql)
+        channel.appendLine('Terminate completed')
+    } catch (error: any) {
+        notify('error', `Failed to terminate backend pid(s) for: ${database} `, error)
+    }
+}
+
+/// Cancels the query currently running on the backend with the given `pid`, e.g. a superseded lint cycle.
+/// On a connection of its own, as queries on the maintenance connection wait for each other, e.g. a slow `CREATE DATABASE`.
+export async function cancelBackend(pid: number) {
+    const channel = getLog()
+    try {
+        const client = await connectWithConfig(await getConnectionConfig())
+        try {
+            channel.appendLine(`Cancelling query on backend ${pid} ...`)
+            await client.query('SELECT pg_cancel_backend($1);', [pid])
+        } finally {
+            await client.end()
+        }
+    } catch (error: any) {
+        channel.appendLine(`Failed to cancel backend ${pid}: ${error.message}`)
+    }
+}
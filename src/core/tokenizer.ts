@@ -0,0 +1,193 @@
+/// The lexical rules of PostgreSQL (`scan.l`) and psql (`psqlscan.l`) that matter for splitting a file
+/// into statements: where comments, strings, quoted identifiers and dollar quotes end,
+/// and which characters outside of them are significant.
+/// Assumes `standard_conforming_strings = on` (the default), so only `E'...'` strings have backslash escapes.
+
+export enum TokenType {
+    Whitespace,
+    /// `-- ...`, up to (not including) the end of the line.
+    LineComment,
+    /// `/* ... */`, which may be nested.
+    BlockComment,
+    /// `'...'`, `E'...'` (also with `U&`, `B`, `X` or `N` before the quote, which scan like `'...'`).
+    String,
+    /// `"..."`
+    QuotedIdentifier,
+    /// `$$...$$` or `$tag$...$tag$`
+    DollarQuoted,
+    /// A keyword or unquoted identifier, which may contain `$` after the first character.
+    Identifier,
+    Semicolon,
+    OpenParen,
+    CloseParen,
+    /// A single `:`, which may start a psql variable reference (`::` is `Other`).
+    Colon,
+    /// The start of a psql meta-command.
+    Backslash,
+    /// Any other character (operators, digits, punctuation).
+    Other,
+}
+
+export interface Token {
+    type: TokenType
+    start: number
+    /// Exclusive. Unterminated comments, strings and quotes extend to the end of the text.
+    end: number
+}
+
+const WHITESPACE_REGEX: RegExp = /[ \t\n\r\f\v]+/y
+const IDENTIFIER_REGEX: RegExp = /[A-Za-z\u0080-\uffff_][A-Za-z\u0080-\uffff0-9_$]*/y
+const DOLLAR_TAG_REGEX: RegExp = /\$([A-Za-z\u0080-\uffff_][A-Za-z\u0080-\uffff0-9_]*)?\$/y
+
+function matchAt(regex: RegExp, text: string, offset: number): string | null {
+    regex.lastIndex = offset
+    return regex.exec(text)?.[0] ?? null
+}
+
+/// Returns the offset after the quote starting at `offset`, where a doubled quote stands for itself,
+/// and with `backslashEscapes`, a backslash escapes the next character.
+function scanQuoted(text: string, offset: number, quote: string, backslashEscapes: boolean): number {
+    let i = offset + 1
+    while (i < text.length) {
+        const char = text[i]
+        if (backslashEscapes && char === '\\') {
+            i += 2
+            continue
+        }
+        if (char === quote) {
+            if (text[i + 1] !== quote) {
+                return i + 1
+            }
+            i++
+        }
+        i++
+    }
+    return text.length
+}
+
+/// Returns the offset after the (possibly nested) block comment starting at `offset`.
+function scanBlockComment(text: string, offset: number): number {
+    let depth = 0
+    let i = offset
+    while (i < text.length) {
+        if (text.startsWith('/*', i)) {
+            depth++
+            i += 2
+        } else if (text.startsWith('*/', i)) {
+            depth--
+            i += 2
+            if (depth === 0) {
+                return i
+            }
+        } else {
+            i++
+        }
+    }
+    return text.length
+}
+
+/// Scans the token starting at `offset` (which must be within `text`).
+export function scanToken(text: string, offset: number): Token {
+    const token = (type: TokenType, end: number): Token => ({ type, start: offset, end: Math.min(end, text.length) })
+    const char = text[offset]
+    const nextChar = text[offset + 1] ?? ''
+
+    const whitespace = matchAt(WHITESPACE_REGEX, text, offset)
+    if (whitespace) {
+        return token(TokenType.Whitespace, offset + whitespace.length)
+    }
+    if (char === '-' && nextChar === '-') {
+        const newline = text.slice(offset).search(/[\r\n]/)
+        return token(TokenType.LineComment, newline === -1 ? text.length : offset + newline)
+    }
+    if (char === '/' && nextChar === '*') {
+        return token(TokenType.BlockComment, scanBlockComment(text, offset))
+    }
+    if (char === "'") {
+        return token(TokenType.String, scanQuoted(text, offset, "'", false))
+    }
+    if (char === '"') {
+        return token(TokenType.QuotedIdentifier, scanQuoted(text, offset, '"', false))
+    }
+    if (char === '$') {
+        const tag = matchAt(DOLLAR_TAG_REGEX, text, offset)
+        if (tag) {
+            const close = text.indexOf(tag, offset + tag.length)
+            return token(TokenType.DollarQuoted, close === -1 ? text.length : close + tag.length)
+        }
+        return token(TokenType.Other, offset + 1)
+    }
+
+    const identifier = matchAt(IDENTIFIER_REGEX, text, offset)
+    if (identifier) {
+        // `E'...'` is a string with backslash escapes, but `xE'...'` is the identifier `xE` followed by a string
+        if (identifier.length === 1 && (char === 'e' || char === 'E') && nextChar === "'") {
+            return token(TokenType.String, scanQuoted(text, offset + 1, "'", true))
+        }
+        return token(TokenType.Identifier, offset + identifier.length)
+    }
+
+    switch (char) {
+        case ';':
+            return token(TokenType.Semicolon, offset + 1)
+        case '(':
+            return token(TokenType.OpenParen, offset + 1)
+        case ')':
+            return token(TokenType.CloseParen, offset + 1)
+        case ':':
+            return nextChar === ':' ? token(TokenType.Other, offset + 2) : token(TokenType.Colon, offset + 1)
+        case '\\':
+            return token(TokenType.Backslash, offset + 1)
+        default:
+            return token(TokenType.Other, offset + 1)
+    }
+}
+
+/// Tracks whether a statement is inside parentheses or the `BEGIN ATOMIC ... END` body of a
+/// `CREATE [OR REPLACE] {FUNCTION | PROCEDURE}`, where a `;` doesn't end it. Uses the same heuristic as psql.
+export class StatementDepth {
+    /// The first letters of the leading `CREATE`, `OR`, `REPLACE`, `FUNCTION` and `PROCEDURE` keywords.
+    private leading: string = ''
+    private identifierCount: number = 0
+    private parenDepth: number = 0
+    private beginDepth: number = 0
+
+    public add(type: TokenType, text: string) {
+        switch (type) {
+            case TokenType.OpenParen:
+                this.parenDepth++
+                break
+            case TokenType.CloseParen:
+                this.parenDepth = Math.max(0, this.parenDepth - 1)
+                break
+            case TokenType.Identifier:
+                this.addIdentifier(text.toLowerCase())
+                break
+        }
+    }
+
+    /// Whether a `;` here ends the statement.
+    public get isTopLevel(): boolean {
+        return this.parenDepth === 0 && this.beginDepth === 0
+    }
+
+    private addIdentifier(word: string) {
+        if (this.identifierCount === this.leading.length && ['create', 'or', 'replace', 'function', 'procedure'].includes(word)) {
+            this.leading += word[0]
+        }
+        this.identifierCount++
+        if (!/^c(f|p|or[fp])/.test(this.leading) || this.parenDepth > 0) {
+            return
+        }
+        if (word === 'begin') {
+            this.beginDepth++
+        } else if (word === 'case') {
+            // CASE also ends with END, which only matters inside a BEGIN
+            if (this.beginDepth > 0) {
+                this.beginDepth++
+            }
+        } else if (word === 'end' && this.beginDepth > 0) {
+            this.beginDepth--
+        }
+    }
+}
@@ -0,0 +1,95 @@
+/// Editor-independent counterparts of the `vscode` types used by the linter.
+/// Their shapes (and enum values) match `vscode`'s, so the extension can convert them one to one.
+
+export enum DiagnosticSeverity {
+    Error = 0,
+    Warning = 1,
+    Information = 2,
+    Hint = 3,
+}
+
+export enum DiagnosticTag {
+    Unnecessary = 1,
+    Deprecated = 2,
+}
+
+/// A zero-based line and character.
+export class Position {
+    public line: number
+    public character: number
+
+    constructor(line: number, character: number) {
+        this.line = line
+        this.character = character
+    }
+}
+
+export class Range {
+    public start: Position
+    public end: Position
+
+    constructor(start: Position, end: Position) {
+        this.start = start
+        this.end = end
+    }
+}
+
+export class DiagnosticRelatedInformation {
+    public path: string
+    public range: Range
+    public message: string
+
+    constructor(path: string, range: Range, message: string) {
+        this.path = path
+        this.range = range
+        this.message = message
+    }
+}
+
+/// What a diagnostic carries beyond `vscode.Diagnostic`, for exports such as SARIF.
+/// Not shown in the editor.
+export interface DiagnosticDetails {
+    /// The hint of the database error or plpgsql_check row (also appended to the message).
+    hint?: string
+    /// The detail and context (`where`) of the database error or plpgsql_check row (also appended to the message).
+    detail?: string
+    context?: string
+    /// The `@include` directives through which the statement was included, innermost first.
+    includeChain?: DiagnosticRelatedInformation[]
+    /// The whole statement, when the diagnostic points at a part of it.
+    statement?: DiagnosticRelatedInformation
+    /// The statements that were not run because of this failure (`stop` error mode).
+    unreachable?: DiagnosticRelatedInformation[]
+    /// Set on diagnostics that repeat another diagnostic elsewhere for the editor
+    /// (at the `@include` directive, on the whole statement, or on the unreachable statements),
+    /// so that exports can report each finding once.
+    echo?: boolean
+}
+
+export class Diagnostic {
+    public range: Range
+    public message: string
+    public severity: DiagnosticSeverity
+    public source?: string
+    /// The SQLSTATE or check type, if known.
+    public code?: string
+    public relatedInformation?: DiagnosticRelatedInformation[]
+    public tags?: DiagnosticTag[]
+    public details?: DiagnosticDetails
+
+    constructor(range: Range, message: string, severity: DiagnosticSeverity = DiagnosticSeverity.Error) {
+        this.range = range
+        this.message = message
+        this.severity = severity
+    }
+}
+
+export interface Disposable {
+    dispose(): void
+}
+
+/// Structurally compatible with `vscode.CancellationToken`.
+export interface CancellationToken {
+    readonly isCancellationRequested: boolean
+    onCancellationRequested(listener: () => any): Disposable
+}
@@ -44,3 +44,14 @@ export function validateDatabaseName(name: string): void {
         }
     }
 }
+
+/// Quotes a raw database name (as stored in `pg_database.datname`) for use in SQL.
+export function quoteDatabaseName(name: string): string {
+    return `"${name.replace(/"/g, '""')}"`
+}
+
+/// The raw database name (as stored in `pg_database.datname`) of a name accepted by `validateDatabaseName`:
+/// quoted names are unquoted, others are folded to lower case like PostgreSQL does.
+export function unquoteDatabaseName(name: string): string {
+    return name.startsWith('"') && name.endsWith('"') ? name.slice(1, -1).replace(/""/g, '"') : name.toLowerCase()
+}
@@ -0,0 +1,36 @@
+import * as vscode from 'vscode'
+import * as path from 'path'
+import { buildSarifLog } from './core'
+import { LintRun } from './lintScheduler'
+import { showMessage } from './showMessage'
+
+/// Asks where to save `run` as a SARIF 2.1.0 log and writes it there.
+/// Paths inside the document's workspace folder are written relative to it.
+export async function exportSarif(run: LintRun | null, version?: string) {
+    if (!run) {
+        showMessage(vscode.LogLevel.Warning, 'Nothing to export yet: lint a document first')
+        return
+    }
+    const { document, diagnostics } = run
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri)
+    const rootDir = workspaceFolder?.uri.scheme === 'file' ? workspaceFolder.uri.fsPath : undefined
+    const defaultDir = rootDir ?? (document.uri.scheme === 'file' ? path.dirname(document.uri.fsPath) : undefined)
+    const baseName = path.basename(document.uri.fsPath, path.extname(document.uri.fsPath)) || 'pglint'
+
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: defaultDir ? vscode.Uri.file(path.join(defaultDir, `${baseName}.sarif`)) : undefined,
+        filters: { 'SARIF': ['sarif', 'json'] },
+        title: 'Export pglint results as SARIF',
+    })
+    if (!target) {
+        return
+    }
+
+    const log = buildSarifLog(diagnostics.getAll(), { rootDir, version })
+    try {
+        await vscode.workspace.fs.writeFile(target, Buffer.from(JSON.stringify(log, null, 2)))
+        showMessage(vscode.LogLevel.Info, `exported lint results of ${vscode.workspace.asRelativePath(document.uri)} to ${target.fsPath}`)
+    } catch (error: any) {
+        showMessage(vscode.LogLevel.Error, `Failed to write SARIF file: ${target.fsPath}`, error)
+    }
+}
@@ -1,12 +1,23 @@
 import * as vscode from 'vscode'
-import { setup, teardown, getConfigManager, LINT_COMMAND, EXTENSION_NAME, getChannel, TERMINATE_COMMAND } from './config'
-import { lintDocument } from './lintDocument'
-import { terminateTemplateConnections } from './terminateBackend'
+import { setup, teardown, getConfigManager, LINT_COMMAND, EXTENSION_NAME, getChannel, TERMINATE_COMMAND, DROP_SCRATCH_DATABASES_COMMAND, DROP_CHECKPOINTS_COMMAND, EXPORT_SARIF_COMMAND, LINT_WORKSPACE_COMMAND, SELECT_PROFILE_COMMAND, SET_PASSWORD_COMMAND } from './config'
+import { LintScheduler } from './lintScheduler'
+import { terminateTemplateConnections } from './terminateTemplateConnections'
 import { IncludeLinkProvider } from './linkProvider'
 import { IncludeCompletionProvider } from './includeCompletionProvider'
+import { closeMaintenanceClient, disposeDatabasePool, dropCheckpoints, dropScratchDatabases, getDatabasePool } from './core'
+import { showMessage } from './showMessage'
+import { exportSarif } from './exportSarif'
+import { lintWorkspace } from './lintWorkspace'
+import { ensureManagedCluster, setupManagedCluster, stopManagedCluster } from './managedCluster'
+import { WorkspaceIncludes } from './workspaceIncludes'
+import { ProfileStatusBar } from './profileStatusBar'
+import { ProfileDecorations } from './profileDecorations'
+import { selectProfile } from './selectProfile'
+import { setPassword } from './setPassword'
 
 export function activate(context: vscode.ExtensionContext) {
-	setup()
+	setup(context.secrets)
+	setupManagedCluster(context.globalStorageUri.fsPath)
 
 	const configManager = getConfigManager()
 
@@ -16,38 +27,89 @@ export function activate(context: vscode.ExtensionContext) {
 	const diagnosticCollection = vscode.languages.createDiagnosticCollection(EXTENSION_NAME)
 	subscriptions.push(diagnosticCollection)
 
+	const profileDecorations = new ProfileDecorations()
+	subscriptions.push(profileDecorations)
+
+	const scheduler = new LintScheduler(diagnosticCollection, profileDecorations)
+	subscriptions.push(scheduler)
+
+	const includes = new WorkspaceIncludes()
+	subscriptions.push(includes)
+	// in the background, so that saving an included file right away still finds the files including it
+	includes.scan().catch(error => showMessage(vscode.LogLevel.Error, 'Failed to read the includes of the workspace', error))
+
 	subscriptions.push(vscode.commands.registerCommand(LINT_COMMAND, async () => {
-		const { languageIds } = configManager.get()
 		const document = vscode.window.activeTextEditor?.document
-		if (document && languageIds.includes(document.languageId)) {
-			await lintDocument(document, diagnosticCollection)
+		if (document && configManager.get(document.uri).languageIds.includes(document.languageId)) {
+			await includes.update(document)
+			await scheduler.lint(document)
 		}
 	}))
 
+	subscriptions.push(vscode.commands.registerCommand(LINT_WORKSPACE_COMMAND, async () => {
+		await lintWorkspace(scheduler, includes)
+	}))
+
 	subscriptions.push(vscode.commands.registerCommand(TERMINATE_COMMAND, async () => {
-		const { languageIds } = configManager.get()
 		const document = vscode.window.activeTextEditor?.document
-		if (document && languageIds.includes(document.languageId)) {
+		if (document && configManager.get(document.uri).languageIds.includes(document.languageId)) {
+			await ensureManagedCluster()
 			await terminateTemplateConnections(document, diagnosticCollection)
 		}
 	}))
 
+	subscriptions.push(vscode.commands.registerCommand(DROP_SCRATCH_DATABASES_COMMAND, async () => {
+		try {
+			await ensureManagedCluster()
+			const databases = await dropScratchDatabases()
+			showMessage(vscode.LogLevel.Info, `dropped ${databases.length} scratch database(s)`)
+		} catch (error: any) {
+			showMessage(vscode.LogLevel.Error, 'Failed to drop scratch databases', error)
+		}
+	}))
+
+	subscriptions.push(vscode.commands.registerCommand(DROP_CHECKPOINTS_COMMAND, async () => {
+		try {
+			await ensureManagedCluster()
+			const databases = await dropCheckpoints()
+			showMessage(vscode.LogLevel.Info, `dropped ${databases.length} checkpoint database(s)`)
+		} catch (error: any) {
+			showMessage(vscode.LogLevel.Error, 'Failed to drop checkpoint databases', error)
+		}
+	}))
+
+	subscriptions.push(vscode.commands.registerCommand(SELECT_PROFILE_COMMAND, selectProfile))
+	subscriptions.push(new ProfileStatusBar())
+	subscriptions.push(vscode.commands.registerCommand(SET_PASSWORD_COMMAND, setPassword))
+
+	subscriptions.push(vscode.commands.registerCommand(EXPORT_SARIF_COMMAND, async () => {
+		const run = scheduler.getLastRun(vscode.window.activeTextEditor?.document)
+		await exportSarif(run, context.extension.packageJSON.version)
+	}))
+
 	subscriptions.push(vscode.workspace.onDidSaveTextDocument(async (document) => {
-		const { languageIds, lintOnSave } = configManager.get()
-		if (!lintOnSave) {
+		const { languageIds, lintOnSave } = configManager.get(document.uri)
+		if (!languageIds.includes(document.languageId)) {
 			return
 		}
-		if (languageIds.includes(document.languageId)) {
-			await lintDocument(document, diagnosticCollection)
-			getChannel().appendLine(`FINISHED LINTING ${diagnosticCollection.get(document.uri)?.length}`)
+		await includes.update(document)
+		if (!lintOnSave) {
+			return
 		}
+		// an included file is linted as part of the root documents including it, not on its own
+		const roots = await includes.getRootDocuments(document)
+		await Promise.all((roots.length > 0 ? roots : [document]).map(root => scheduler.lint(root)))
+		getChannel().appendLine(`FINISHED LINTING ${diagnosticCollection.get(document.uri)?.length}`)
 	}))
 
-	subscriptions.push(vscode.workspace.onDidChangeTextDocument(async ({ document }) => {
-		const { clearOnChange } = configManager.get()
+	subscriptions.push(vscode.workspace.onDidChangeTextDocument(async ({ document, contentChanges }) => {
+		const { clearOnChange, lintOnType, lintOnTypeDelay, languageIds } = configManager.get(document.uri)
 		if (clearOnChange) {
 			diagnosticCollection.set(document.uri, [])
 		}
+		if (lintOnType && contentChanges.length > 0 && languageIds.includes(document.languageId)) {
+			scheduler.debounce(document, lintOnTypeDelay)
+		}
 	}))
 
 	const linkProvider = new IncludeLinkProvider()
@@ -57,7 +119,7 @@ export function activate(context: vscode.ExtensionContext) {
 	const registerProviders = () => {
 		providerRegistrations.forEach(disposable => disposable.dispose())
 		providerRegistrations = []
-		const triggerChars = ' ./'.split('')
+		const triggerChars = ' ./!'.split('')
 		const { languageIds } = configManager.get()
 		providerRegistrations = languageIds.flatMap(id => [
 			vscode.languages.registerDocumentLinkProvider({ scheme: 'file', language: id }, linkProvider),
@@ -67,14 +129,25 @@ export function activate(context: vscode.ExtensionContext) {
 	}
 
 	registerProviders()
+	startManagedCluster()
 
 	subscriptions.push(vscode.workspace.onDidChangeConfiguration(event => {
 		if (event.affectsConfiguration(EXTENSION_NAME)) {
 			registerProviders()
+			getDatabasePool().clear()
+			startManagedCluster()
 		}
 	}))
 }
 
-export function deactivate() {
+/// Starts (or stops) the managed cluster in the background, so that the first lint doesn't wait for `initdb`.
+function startManagedCluster() {
+	ensureManagedCluster().catch(error => showMessage(vscode.LogLevel.Error, 'Managed cluster', error))
+}
+
+export async function deactivate() {
+	await disposeDatabasePool()
+	await closeMaintenanceClient()
+	await stopManagedCluster()
 	teardown()
 }
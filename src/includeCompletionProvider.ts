@@ -1,6 +1,10 @@
 import * as vscode from 'vscode'
 import * as path from 'path'
 import * as fs from 'fs'
+import { isGlob } from './core'
+
+/// Offered in every directory, as `@include dir/` alone includes the same files.
+const SQL_FILES_GLOB: string = '*.sql'
 
 export class IncludeCompletionProvider implements vscode.CompletionItemProvider {
     provideCompletionItems(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken, context: vscode.CompletionContext): vscode.CompletionItem[] | Thenable<vscode.CompletionItem[]> {
@@ -10,7 +14,11 @@ export class IncludeCompletionProvider implements vscode.CompletionItemProvider
         }
 
         const dirPath = path.dirname(document.uri.fsPath)
-        const includePath = linePrefix.match(/--\s*@include[:\s]\s*([^\s]*)$/)?.[1] ?? ''
+        // the path being typed, or a `!pattern` of files to leave out after it
+        const includePath = linePrefix.match(/--\s*@include[:\s]\s*(?:.*\s!)?!?([^\s!]*)$/)?.[1] ?? ''
+        if (isGlob(includePath)) {
+            return []
+        }
         const resolvedPath = path.resolve(dirPath, includePath)
 
         return new Promise((resolve, reject) => {
@@ -27,6 +35,11 @@ export class IncludeCompletionProvider implements vscode.CompletionItemProvider
                     return completionItem
                 })
 
+                const globItem = new vscode.CompletionItem(SQL_FILES_GLOB, vscode.CompletionItemKind.File)
+                globItem.detail = 'every .sql file in this directory, in sorted order'
+                globItem.sortText = '~'
+                completionItems.push(globItem)
+
                 resolve(completionItems)
             })
         })
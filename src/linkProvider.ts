@@ -1,5 +1,10 @@
 import * as vscode from 'vscode'
 import * as path from 'path'
+import * as fs from 'fs/promises'
+import { isGlob, resolveIncludePaths } from './core'
+
+/// The number of matching files listed in the tooltip of a glob or directory `@include`.
+const MAX_TOOLTIP_FILES: number = 20
 
 export class IncludeLinkProvider implements vscode.DocumentLinkProvider {
     async provideDocumentLinks(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.DocumentLink[]> {
@@ -9,7 +14,9 @@ export class IncludeLinkProvider implements vscode.DocumentLinkProvider {
         let match: RegExpExecArray | null
 
         while ((match = includeRegex.exec(text)) !== null) {
-            const includePath = match[1].trim()
+            const directive = match[1].trim()
+            // the link covers the path, not the `!pattern`s after it
+            const [includePath] = directive.split(/\s+!/)
             const offset = match.index + match[0].indexOf(includePath)
             const start = document.positionAt(offset)
             const end = document.positionAt(offset + includePath.length)
@@ -17,10 +24,25 @@ export class IncludeLinkProvider implements vscode.DocumentLinkProvider {
 
             const dirPath = path.dirname(document.uri.fsPath)
             const resolvedPath = path.resolve(dirPath, includePath)
-            const targetUri = vscode.Uri.file(resolvedPath)
+            const isDirectory = await fs.stat(resolvedPath).then(stat => stat.isDirectory(), () => false)
+            if (!isGlob(includePath) && !isDirectory) {
+                let link = new vscode.DocumentLink(range, vscode.Uri.file(resolvedPath))
+                link.tooltip = resolvedPath
+                links.push(link)
+                continue
+            }
 
-            let link = new vscode.DocumentLink(range, targetUri)
-            link.tooltip = resolvedPath
+            // a glob or directory links to its first file, and lists the others
+            let includePaths: string[]
+            try {
+                includePaths = await resolveIncludePaths(directive, dirPath, true, [document.uri.fsPath])
+            } catch {
+                continue
+            }
+            let link = new vscode.DocumentLink(range, vscode.Uri.file(includePaths[0]))
+            const listed = includePaths.slice(0, MAX_TOOLTIP_FILES).map(p => path.relative(dirPath, p))
+            const more = includePaths.length > listed.length ? `\n... and ${includePaths.length - listed.length} more` : ''
+            link.tooltip = `${includePaths.length} file(s):\n${listed.join('\n')}${more}`
             links.push(link)
         }
 
@@ -0,0 +1,123 @@
+import * as vscode from 'vscode'
+import { DiagnosticBuffer } from './core'
+import { lintDocument } from './lintDocument'
+import { ProfileDecorations } from './profileDecorations'
+import { showMessage } from './showMessage'
+import { DiagnosticPublisher } from './vscodeDiagnostics'
+
+/// The lint cycles of one root document.
+interface LintQueue {
+    /// Cancels the running lint cycle, if any.
+    source?: vscode.CancellationTokenSource
+    /// The latest document requested while a cycle was running. Repeated requests coalesce into it.
+    pending?: vscode.TextDocument
+    /// Resolves when no cycle is running or pending anymore.
+    drained?: Promise<void>
+}
+
+/// The diagnostics of the last completed lint cycle of a root document, keyed by path.
+export interface LintRun {
+    document: vscode.TextDocument
+    diagnostics: DiagnosticBuffer
+}
+
+/// Schedules lint cycles so that each root document has at most one running (and one pending) cycle.
+/// A newer request cancels the running cycle and starts once it has finished tearing down,
+/// so concurrent saves never race on the same temporary database or diagnostics.
+/// Different root documents are linted in parallel, each with its own position cache and log section.
+export class LintScheduler implements vscode.Disposable {
+    /// Shared by the root documents, as files included by several of them get the diagnostics of each.
+    private publisher: DiagnosticPublisher
+    private profileDecorations: ProfileDecorations
+    private timers: Map<string, NodeJS.Timeout> = new Map()
+    private queues: Map<string, LintQueue> = new Map()
+    /// Most recently completed last.
+    private runs: Map<string, LintRun> = new Map()
+
+    constructor(collection: vscode.DiagnosticCollection, profileDecorations: ProfileDecorations) {
+        this.publisher = new DiagnosticPublisher(collection)
+        this.profileDecorations = profileDecorations
+    }
+
+    /// Lints `document` once it hasn't changed for `delay` ms. A running lint of it is cancelled right away,
+    /// since its results are already stale.
+    public debounce(document: vscode.TextDocument, delay: number) {
+        const key = document.uri.toString()
+        clearTimeout(this.timers.get(key))
+        this.queues.get(key)?.source?.cancel()
+        this.timers.set(key, setTimeout(() => {
+            this.timers.delete(key)
+            this.lint(document)
+        }, delay))
+    }
+
+    /// Resolves when `document` (or a newer request for it) has been linted.
+    public lint(document: vscode.TextDocument): Promise<void> {
+        const key = document.uri.toString()
+        clearTimeout(this.timers.get(key))
+        this.timers.delete(key)
+
+        let queue = this.queues.get(key)
+        if (!queue) {
+            queue = {}
+            this.queues.set(key, queue)
+        }
+        queue.pending = document
+        queue.source?.cancel()
+        queue.drained ??= this.drain(key, queue)
+        return queue.drained
+    }
+
+    private async drain(key: string, queue: LintQueue) {
+        while (queue.pending) {
+            const document = queue.pending
+            queue.pending = undefined
+            const source = new vscode.CancellationTokenSource()
+            queue.source = source
+            try {
+                const diagnostics = await lintDocument(document, this.publisher, source.token)
+                if (diagnostics) {
+                    this.runs.delete(key)
+                    this.runs.set(key, { document, diagnostics })
+                    this.profileDecorations.update(document, diagnostics)
+                }
+            } catch (error: any) {
+                showMessage(vscode.LogLevel.Error, 'Failed to lint document', error)
+            } finally {
+                queue.source = undefined
+                source.dispose()
+            }
+        }
+        queue.drained = undefined
+        this.queues.delete(key)
+    }
+
+    /// Cancels the running and pending lint cycles of `document`, if any.
+    public cancel(document: vscode.TextDocument) {
+        const key = document.uri.toString()
+        clearTimeout(this.timers.get(key))
+        this.timers.delete(key)
+        const queue = this.queues.get(key)
+        if (queue) {
+            queue.pending = undefined
+            queue.source?.cancel()
+        }
+    }
+
+    /// The last completed lint cycle of `document`, or of the most recently linted document if not given or not linted.
+    public getLastRun(document?: vscode.TextDocument): LintRun | null {
+        const run = document ? this.runs.get(document.uri.toString()) : undefined
+        return run ?? [...this.runs.values()].pop() ?? null
+    }
+
+    public dispose() {
+        for (const timer of this.timers.values()) {
+            clearTimeout(timer)
+        }
+        this.timers.clear()
+        for (const queue of this.queues.values()) {
+            queue.pending = undefined
+            queue.source?.cancel()
+        }
+    }
+}
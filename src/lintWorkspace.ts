@@ -0,0 +1,67 @@
+import * as vscode from 'vscode'
+import { getChannel, getConfigManager } from './config'
+import { LintScheduler } from './lintScheduler'
+import { showMessage } from './showMessage'
+import { WorkspaceIncludes } from './workspaceIncludes'
+
+/// Lints every root file in the workspace, at most `workspaceConcurrency` at a time, under a cancellable progress notification.
+/// Root files are those not `@include`d by another workspace file, since those are linted as part of the files including them
+/// (of files that include each other in a cycle, one is linted, see `IncludeGraph.isIncluded`).
+/// Each file goes through `scheduler`, so it never races with a lint of the same file started on save.
+export async function lintWorkspace(scheduler: LintScheduler, includes: WorkspaceIncludes) {
+    await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'pglint: linting workspace',
+        cancellable: true,
+    }, async (progress, token) => {
+        const { workspaceConcurrency } = getConfigManager().get()
+        progress.report({ message: 'finding files...' })
+        const uris = (await includes.scan(token)).filter(uri => !includes.isIncluded(uri))
+        if (uris.length === 0) {
+            if (!token.isCancellationRequested) {
+                showMessage(vscode.LogLevel.Info, 'No files to lint in the workspace')
+            }
+            return
+        }
+
+        const running: Set<vscode.TextDocument> = new Set()
+        const cancellation = token.onCancellationRequested(() => {
+            for (const document of running) {
+                scheduler.cancel(document)
+            }
+        })
+        let next = 0
+        let done = 0
+        const worker = async () => {
+            while (next < uris.length && !token.isCancellationRequested) {
+                const uri = uris[next++]
+                try {
+                    const document = await vscode.workspace.openTextDocument(uri)
+                    running.add(document)
+                    try {
+                        await scheduler.lint(document)
+                    } finally {
+                        running.delete(document)
+                    }
+                } catch (error: any) {
+                    showMessage(vscode.LogLevel.Error, `Failed to lint ${vscode.workspace.asRelativePath(uri)}`, error)
+                }
+                done++
+                progress.report({
+                    increment: 100 / uris.length,
+                    message: `${done}/${uris.length} ${vscode.workspace.asRelativePath(uri)}`,
+                })
+            }
+        }
+
+        try {
+            const workers = Math.max(1, Math.min(workspaceConcurrency, uris.length))
+            await Promise.all(Array.from({ length: workers }, worker))
+        } finally {
+            cancellation.dispose()
+        }
+        getChannel().appendLine(token.isCancellationRequested
+            ? `Workspace lint cancelled after ${done} of ${uris.length} file(s)`
+            : `Workspace lint finished: ${uris.length} file(s)`)
+    })
+}
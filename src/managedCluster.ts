@@ -0,0 +1,58 @@
+import * as path from 'path'
+import { getConfigManager, setManagedClusterUrl } from './config'
+import { ManagedCluster } from './core'
+
+let _storageDirectory: string | null = null
+let _cluster: ManagedCluster | null = null
+let _binDirectory: string = ''
+let _starting: Promise<void> | null = null
+
+/// `storageDirectory` is the extension's global storage, where the managed cluster's data directory lives.
+export function setupManagedCluster(storageDirectory: string) {
+    _storageDirectory = storageDirectory
+}
+
+/// Starts the managed cluster if `managedCluster` is enabled and it isn't running yet (or `postgresBinDirectory` changed),
+/// and stops it if `managedCluster` has been disabled. Resolves once the cluster is ready.
+export async function ensureManagedCluster(): Promise<void> {
+    const { managedCluster, postgresBinDirectory } = getConfigManager().getManagedClusterSettings()
+    if (_starting) {
+        await _starting
+    }
+    if (!managedCluster || (_cluster && postgresBinDirectory !== _binDirectory)) {
+        await stopManagedCluster()
+    }
+    if (!managedCluster || _cluster) {
+        return
+    }
+    _starting ??= start(postgresBinDirectory).finally(() => {
+        _starting = null
+    })
+    await _starting
+}
+
+async function start(binDirectory: string) {
+    if (!_storageDirectory) {
+        throw new Error('managed cluster used before setup')
+    }
+    const cluster = new ManagedCluster({
+        dataDirectory: path.join(_storageDirectory, 'cluster'),
+        binDirectory: binDirectory || undefined,
+    })
+    try {
+        const url = await cluster.start()
+        _cluster = cluster
+        _binDirectory = binDirectory
+        setManagedClusterUrl(url)
+    } catch (error: any) {
+        await cluster.stop().catch(() => { })
+        throw new Error(`Failed to start the managed cluster: ${error.stderr?.trim() || error.message}`)
+    }
+}
+
+export async function stopManagedCluster() {
+    const cluster = _cluster
+    _cluster = null
+    setManagedClusterUrl(undefined)
+    await cluster?.stop()
+}
@@ -0,0 +1,84 @@
+import * as vscode from 'vscode'
+import { DiagnosticBuffer, ProfiledLine } from './core'
+import { DiagnosticConverter } from './vscodeDiagnostics'
+
+interface FileProfile {
+    covered: vscode.DecorationOptions[]
+    uncovered: vscode.DecorationOptions[]
+}
+
+/// Shows the results of the plpgsql_check profiler (`pglint.profiler`) of the last lint run in the function bodies:
+/// lines that ran and lines that never ran get a background, and their hovers show the execution counts and times.
+/// A file's profile is removed when it is edited, since its lines no longer match.
+export class ProfileDecorations implements vscode.Disposable {
+    private covered: vscode.TextEditorDecorationType
+    private uncovered: vscode.TextEditorDecorationType
+    /// By URI.
+    private profiles: Map<string, FileProfile> = new Map()
+    private subscriptions: vscode.Disposable[]
+
+    constructor() {
+        this.covered = vscode.window.createTextEditorDecorationType({
+            isWholeLine: true,
+            backgroundColor: new vscode.ThemeColor('diffEditor.insertedLineBackground'),
+            overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.addedForeground'),
+            overviewRulerLane: vscode.OverviewRulerLane.Left,
+        })
+        this.uncovered = vscode.window.createTextEditorDecorationType({
+            isWholeLine: true,
+            backgroundColor: new vscode.ThemeColor('diffEditor.removedLineBackground'),
+            overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.deletedForeground'),
+            overviewRulerLane: vscode.OverviewRulerLane.Left,
+        })
+        this.subscriptions = [
+            vscode.window.onDidChangeVisibleTextEditors(editors => editors.forEach(editor => this.apply(editor))),
+            vscode.workspace.onDidChangeTextDocument(({ document, contentChanges }) => {
+                if (contentChanges.length > 0 && this.profiles.delete(document.uri.toString())) {
+                    vscode.window.visibleTextEditors.filter(editor => editor.document === document).forEach(editor => this.apply(editor))
+                }
+            }),
+        ]
+    }
+
+    /// Replaces the profiles of the files of a lint run of `document` with those in `buffer`.
+    public update(document: vscode.TextDocument, buffer: DiagnosticBuffer) {
+        const converter = new DiagnosticConverter({ rootPath: document.uri.fsPath, rootUri: document.uri })
+        this.profiles.delete(document.uri.toString())
+        for (const path of buffer.getAll().keys()) {
+            this.profiles.delete(converter.uri(path).toString())
+        }
+        for (const [path, lines] of buffer.getProfiles()) {
+            const decorations = (covered: boolean) => lines
+                .filter(line => (line.executions > 0) === covered)
+                .map(line => ({ range: converter.range(line.range), hoverMessage: describeLine(line) }))
+            this.profiles.set(converter.uri(path).toString(), { covered: decorations(true), uncovered: decorations(false) })
+        }
+        vscode.window.visibleTextEditors.forEach(editor => this.apply(editor))
+    }
+
+    private apply(editor: vscode.TextEditor) {
+        const profile = this.profiles.get(editor.document.uri.toString())
+        editor.setDecorations(this.covered, profile?.covered ?? [])
+        editor.setDecorations(this.uncovered, profile?.uncovered ?? [])
+    }
+
+    public dispose() {
+        this.subscriptions.forEach(subscription => subscription.dispose())
+        this.covered.dispose()
+        this.uncovered.dispose()
+    }
+}
+
+function describeLine({ routine, statements, executions, errors, totalTime, maxTime, rows }: ProfiledLine): vscode.MarkdownString {
+    const markdown = new vscode.MarkdownString()
+    markdown.appendMarkdown('**plpgsql_check profiler**: ')
+    markdown.appendText(routine)
+    if (executions === 0) {
+        markdown.appendMarkdown(`\n\nnot executed (${statements} statement${statements === 1 ? '' : 's'})`)
+        return markdown
+    }
+    const average = totalTime / executions
+    markdown.appendMarkdown(`\n\n| executions | failed | total | average | max | rows |\n|---:|---:|---:|---:|---:|---:|\n`)
+    markdown.appendMarkdown(`| ${executions} | ${errors} | ${totalTime.toFixed(3)} ms | ${average.toFixed(3)} ms | ${maxTime.toFixed(3)} ms | ${rows} |`)
+    return markdown
+}
@@ -0,0 +1,52 @@
+import * as vscode from 'vscode'
+import { EXTENSION_NAME, getConfigManager, SELECT_PROFILE_COMMAND } from './config'
+import { findProfileDirective } from './core'
+
+/// Shows the connection profile that the active document is linted with, if any profiles are configured.
+/// Clicking it runs `pglint.selectProfile`.
+export class ProfileStatusBar implements vscode.Disposable {
+    private item: vscode.StatusBarItem
+    private subscriptions: vscode.Disposable[]
+
+    constructor() {
+        this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right)
+        this.item.name = `${EXTENSION_NAME} profile`
+        this.item.command = SELECT_PROFILE_COMMAND
+        this.subscriptions = [
+            vscode.window.onDidChangeActiveTextEditor(() => this.update()),
+            vscode.workspace.onDidSaveTextDocument(document => {
+                if (document === vscode.window.activeTextEditor?.document) {
+                    this.update()
+                }
+            }),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration(EXTENSION_NAME)) {
+                    this.update()
+                }
+            }),
+        ]
+        this.update()
+    }
+
+    public update() {
+        const document = vscode.window.activeTextEditor?.document
+        const { languageIds, profile, profiles } = getConfigManager().getProfileSettings(document?.uri)
+        if (!document || !languageIds.includes(document.languageId) || (Object.keys(profiles).length === 0 && !profile)) {
+            this.item.hide()
+            return
+        }
+        const directive = findProfileDirective(document.getText())
+        const name = directive?.name || profile
+        const known = !name || Object.hasOwn(profiles, name)
+        this.item.text = `${known ? '$(database)' : '$(warning)'} ${name || 'no profile'}`
+        this.item.tooltip = directive?.name
+            ? `${EXTENSION_NAME}: profile selected by -- @profile in this file`
+            : `${EXTENSION_NAME}: connection profile of this workspace folder, click to switch`
+        this.item.show()
+    }
+
+    public dispose() {
+        this.subscriptions.forEach(subscription => subscription.dispose())
+        this.item.dispose()
+    }
+}
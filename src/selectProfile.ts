@@ -0,0 +1,58 @@
+import * as vscode from 'vscode'
+import { ConfigKey, EXTENSION_NAME, getConfigManager } from './config'
+import { findProfileDirective } from './core'
+import { showMessage } from './showMessage'
+
+const NO_PROFILE_LABEL: string = '(no profile)'
+
+interface ProfileItem extends vscode.QuickPickItem {
+    profile: string
+}
+
+/// Shows `databaseUrl` without its password.
+function describeDatabaseUrl(databaseUrl?: string): string | undefined {
+    if (!databaseUrl) {
+        return undefined
+    }
+    try {
+        const url = new URL(databaseUrl)
+        if (url.password) {
+            url.password = '***'
+        }
+        return url.toString()
+    } catch {
+        return undefined
+    }
+}
+
+/// Lets the user pick the profile of the active document's workspace folder (or the workspace) from `pglint.profiles`,
+/// and saves it as `pglint.profile` there.
+export async function selectProfile() {
+    const document = vscode.window.activeTextEditor?.document
+    const { profile, profiles } = getConfigManager().getProfileSettings(document?.uri)
+    const names = Object.keys(profiles)
+    if (names.length === 0) {
+        showMessage(vscode.LogLevel.Info, `No connection profiles to select from. Add them to ${EXTENSION_NAME}.${ConfigKey.profiles} in settings.`)
+        return
+    }
+
+    const items: ProfileItem[] = [
+        { label: NO_PROFILE_LABEL, description: `${EXTENSION_NAME}.databaseUrl and the other settings as they are`, profile: '' },
+        ...names.map(name => ({ label: name, description: describeDatabaseUrl(profiles[name].databaseUrl), profile: name })),
+    ]
+    const picked = await vscode.window.showQuickPick(items, { placeHolder: `Connection profile (current: ${profile || NO_PROFILE_LABEL})` })
+    if (!picked) {
+        return
+    }
+
+    const workspaceFolder = document && vscode.workspace.getWorkspaceFolder(document.uri)
+    const target = workspaceFolder
+        ? vscode.ConfigurationTarget.WorkspaceFolder
+        : vscode.workspace.workspaceFolders ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global
+    await vscode.workspace.getConfiguration(EXTENSION_NAME, workspaceFolder?.uri).update(ConfigKey.profile, picked.profile, target)
+
+    const directive = document ? findProfileDirective(document.getText()) : null
+    if (document && directive?.name) {
+        showMessage(vscode.LogLevel.Info, `${vscode.workspace.asRelativePath(document.uri)} selects the profile ${directive.name} with @profile, which takes precedence.`)
+    }
+}
@@ -0,0 +1,36 @@
+import * as vscode from 'vscode'
+import { EXTENSION_NAME, getConfigManager, storePassword } from './config'
+import { findProfileDirective, getConnectionConfig, getConnectionKey, withConfig } from './core'
+import { showMessage } from './showMessage'
+
+/// Asks for the password of the server that the active document (or the workspace) is linted on,
+/// and stores it in the secret storage instead of the settings. An empty password deletes it.
+export async function setPassword() {
+    const document = vscode.window.activeTextEditor?.document
+    const config = getConfigManager().get(document?.uri)
+    if (config.managedCluster) {
+        showMessage(vscode.LogLevel.Info, `The managed cluster doesn't need a password.`)
+        return
+    }
+    // the profile selected by the document, as when linting it
+    const profile = (document && findProfileDirective(document.getText())?.name) || config.profile
+    let connection: string
+    try {
+        connection = getConnectionKey(await withConfig({ ...config, profile }, () => getConnectionConfig()))
+    } catch (error: any) {
+        showMessage(vscode.LogLevel.Error, `Failed to read ${EXTENSION_NAME}.databaseUrl`, error)
+        return
+    }
+
+    const password = await vscode.window.showInputBox({
+        title: `Password of ${connection}`,
+        prompt: 'Stored in the secret storage of VS Code. Leave empty to delete the stored password.',
+        password: true,
+        ignoreFocusOut: true,
+    })
+    if (password === undefined) {
+        return
+    }
+    await storePassword(connection, password)
+    showMessage(vscode.LogLevel.Info, password ? `Stored the password of ${connection}.` : `Deleted the password of ${connection}.`)
+}
@@ -0,0 +1,40 @@
+import * as vscode from 'vscode'
+import { getChannel, getConfigManager } from './config'
+import { showMessage } from './showMessage'
+import { findProfileDirective, getConfig, PositionCache, splitIntoStatements, terminateBackend, validateDatabaseName, withConfig } from './core'
+
+export async function terminateTemplateConnections(document: vscode.TextDocument, collection: vscode.DiagnosticCollection) {
+    const config = getConfigManager().get(document.uri)
+    if (!config.languageIds.includes(document.languageId)) {
+        return
+    }
+    const sqlText = document.getText()
+    // on the server that the document is linted on
+    const profile = findProfileDirective(sqlText)?.name || config.profile
+    await withConfig({ ...config, profile }, () => terminateDocumentTemplateConnections(document, sqlText))
+}
+
+async function terminateDocumentTemplateConnections(document: vscode.TextDocument, sqlText: string) {
+    const channel = getChannel()
+    const statements = await splitIntoStatements(document.uri.fsPath, sqlText, new PositionCache())
+    if (statements.length === 0) {
+        return
+    }
+    const { template } = statements[0]
+    if (!template) {
+        return
+    }
+    try {
+        validateDatabaseName(template)
+    } catch (e: any) {
+        showMessage(vscode.LogLevel.Error, `invalid template name: ${template} `, e)
+        return
+    }
+    try {
+        await terminateBackend(template)
+    } catch (error: any) {
+        showMessage(vscode.LogLevel.Error, `Failed to terminate template backend connections for: ${template}, url: ${getConfig().databaseUrl} `, error)
+        return
+    }
+}
+
@@ -0,0 +1,47 @@
+import * as assert from 'assert'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { readService } from '../core/connectionConfig'
+
+suite('connectionConfig', () => {
+    let directory: string
+    let environment: NodeJS.ProcessEnv
+
+    setup(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'pglint-service-'))
+        environment = { ...process.env }
+    })
+
+    teardown(() => {
+        process.env = environment
+        fs.rmSync(directory, { recursive: true, force: true })
+    })
+
+    test('readService reads the section of the service', async () => {
+        process.env.PGSERVICEFILE = path.join(directory, 'services.conf')
+        delete process.env.PGSYSCONFDIR
+        fs.writeFileSync(process.env.PGSERVICEFILE, [
+            '# lint servers',
+            '[other]',
+            'host=other',
+            '',
+            '[lint]',
+            '  host = db.internal ',
+            'port=5433',
+            'password=a=b',
+            'ignored',
+            '[next]',
+            'host=next',
+        ].join('\r\n'))
+        assert.deepStrictEqual(await readService('lint'), { host: 'db.internal', port: '5433', password: 'a=b' })
+    })
+
+    test('readService falls back to pg_service.conf in PGSYSCONFDIR', async () => {
+        process.env.PGSERVICEFILE = path.join(directory, 'missing.conf')
+        process.env.PGSYSCONFDIR = directory
+        fs.writeFileSync(path.join(directory, 'pg_service.conf'), '[lint]\ndbname=app\n')
+        assert.deepStrictEqual(await readService('lint'), { dbname: 'app' })
+        await assert.rejects(readService('other'), /definition of service "other" not found/)
+    })
+})
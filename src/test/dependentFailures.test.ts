@@ -0,0 +1,37 @@
+import * as assert from 'assert'
+import { DatabaseError } from 'pg'
+import { findFailedDependency, getCreatedObjectName } from '../core/dependentFailures'
+import { PositionCache, splitIntoStatements } from '../core/splitIntoStatements'
+import { useTestHost } from './testHost'
+
+function databaseError(code: string, message: string): DatabaseError {
+    const error = new DatabaseError(message, message.length, 'error')
+    error.code = code
+    return error
+}
+
+suite('dependentFailures', () => {
+    suiteSetup(() => useTestHost())
+
+    test('getCreatedObjectName folds the created name like PostgreSQL', () => {
+        assert.strictEqual(getCreatedObjectName('CREATE TABLE app.Users (id int);'), 'users')
+        assert.strictEqual(getCreatedObjectName('CREATE TABLE IF NOT EXISTS app."Users" (id int);'), 'Users')
+        assert.strictEqual(getCreatedObjectName('CREATE OR REPLACE FUNCTION f() RETURNS int AS $$ SELECT 1 $$ LANGUAGE sql;'), 'f')
+        assert.strictEqual(getCreatedObjectName('CREATE UNIQUE INDEX CONCURRENTLY users_email ON users (email);'), 'users_email')
+        assert.strictEqual(getCreatedObjectName('INSERT INTO users VALUES (1);'), null)
+    })
+
+    test('findFailedDependency finds the failed statement that would have created the missing object', async () => {
+        const statements = await splitIntoStatements('/workspace/schema.sql', 'CREATE TABLE app.users (id int);\nCREATE FUNCTION total() RETURNS int AS $$ SELECT 1 $$ LANGUAGE sql;', new PositionCache())
+        const [table, routine] = statements
+        assert.strictEqual(findFailedDependency(databaseError('42P01', 'relation "app.users" does not exist'), statements), table)
+        assert.strictEqual(findFailedDependency(databaseError('42883', 'function total() does not exist'), statements), routine)
+        assert.strictEqual(findFailedDependency(databaseError('42P01', 'relation "orders" does not exist'), statements), undefined)
+    })
+
+    test('findFailedDependency ignores other errors', async () => {
+        const statements = await splitIntoStatements('/workspace/schema.sql', 'CREATE TABLE users (id int);', new PositionCache())
+        assert.strictEqual(findFailedDependency(databaseError('23505', 'duplicate key value violates unique constraint "users"'), statements), undefined)
+        assert.strictEqual(findFailedDependency(new Error('relation "users" does not exist'), statements), undefined)
+    })
+})
@@ -0,0 +1,81 @@
+import * as assert from 'assert'
+import { ErrorFields, getObjectLinks, locateError, locateInternalError } from '../core/errorLocation'
+import { PositionCache, splitIntoStatements, Statement } from '../core/splitIntoStatements'
+import { DiagnosticRelatedInformation, Position, Range } from '../core/types'
+import { useTestHost } from './testHost'
+
+const FILE: string = '/workspace/schema.sql'
+
+/// The text of `sql` that `locateError` points at.
+function locate(error: ErrorFields, sql: string): string | null {
+    const span = locateError(error, sql)
+    return span && sql.substring(span.start, span.end)
+}
+
+/// The links as `message @ line:character-line:character`.
+function describe(links: DiagnosticRelatedInformation[]): string[] {
+    return links.map(({ message, range: { start, end } }) => `${message} @ ${start.line}:${start.character}-${end.line}:${end.character}`)
+}
+
+suite('errorLocation', () => {
+    let positions: PositionCache
+    let statements: Statement[]
+
+    suiteSetup(async () => {
+        useTestHost()
+        positions = new PositionCache()
+        statements = await splitIntoStatements(FILE, [
+            'CREATE SCHEMA app;',
+            'CREATE TABLE app.items (id int, "Name" text, CONSTRAINT positive CHECK (id > 0));',
+            'ALTER TABLE app.items ADD COLUMN price numeric;',
+            'CREATE UNIQUE INDEX items_name ON app.items ("Name");',
+            'CREATE FUNCTION app.f() RETURNS int LANGUAGE plpgsql AS $$ BEGIN RETURN 1 / 0; END $$;',
+            'SELECT app.f();',
+        ].join('\n'), positions)
+    })
+
+    test('locateError prefers the internal query', () => {
+        const sql = 'DO $$ BEGIN PERFORM 1 / 0; END $$'
+        assert.strictEqual(locate({ message: 'division by zero', internalQuery: 'SELECT 1 / 0', internalPosition: '8' }, sql), null)
+        assert.strictEqual(locate({ message: 'division by zero', internalQuery: 'PERFORM 1 / 0', internalPosition: '9', position: '1' }, sql), '1')
+    })
+
+    test('locateError finds the named object at or after the position', () => {
+        const sql = 'INSERT INTO items (name) SELECT name FROM items'
+        assert.strictEqual(locate({ message: 'x', column: 'name', position: '26' }, sql), 'name')
+        assert.strictEqual(locateError({ message: 'x', column: 'name', position: '26' }, sql)!.start, 32)
+        assert.strictEqual(locate({ message: 'x', column: 'Name' }, 'SELECT "Name" FROM t'), '"Name"')
+    })
+
+    test('locateError falls back to the quoted name, then the token at the position', () => {
+        assert.strictEqual(locate({ message: 'relation "missing" does not exist' }, 'SELECT * FROM Missing'), 'Missing')
+        assert.strictEqual(locate({ message: 'syntax error at or near "FORM"', position: '10' }, 'SELECT 1 FORM t'), 'FORM')
+        assert.deepStrictEqual(locateError({ message: 'syntax error at end of input', position: '9' }, 'SELECT ('), { start: 8, end: 9 })
+        assert.strictEqual(locate({ message: 'no position' }, 'SELECT 1'), null)
+    })
+
+    test('locateInternalError finds the statement that contains the internal query', () => {
+        const location = locateInternalError({ message: 'division by zero', internalQuery: 'RETURN 1 / 0', internalPosition: '12' }, statements, positions)
+        assert.strictEqual(location?.statement, statements[4])
+        assert.deepStrictEqual(location.range, new Range(new Position(4, 76), new Position(4, 77)))
+        assert.strictEqual(locateInternalError({ message: 'x', internalQuery: 'SELECT 2', internalPosition: '1' }, statements, positions), null)
+    })
+
+    test('getObjectLinks links the table, column and constraint definitions', () => {
+        assert.deepStrictEqual(describe(getObjectLinks({ message: 'x', schema: 'app', table: 'items', column: 'Name', constraint: 'positive' }, statements, positions)), [
+            'table app.items @ 1:17-1:22',
+            'column Name of app.items @ 1:32-1:38',
+            'constraint positive of app.items @ 1:56-1:64',
+        ])
+        assert.deepStrictEqual(describe(getObjectLinks({ message: 'x', schema: 'app', table: 'items', column: 'price' }, statements, positions)), [
+            'table app.items @ 1:17-1:22',
+            'column price of app.items @ 2:33-2:38',
+        ])
+    })
+
+    test('getObjectLinks links unique indexes, types and schemas', () => {
+        assert.deepStrictEqual(describe(getObjectLinks({ message: 'x', constraint: 'items_name' }, statements, positions)), ['index items_name @ 3:20-3:30'])
+        assert.deepStrictEqual(describe(getObjectLinks({ message: 'x', schema: 'app' }, statements, positions)), ['schema app @ 0:14-0:17'])
+        assert.deepStrictEqual(getObjectLinks({ message: 'x', schema: 'other', table: 'items' }, statements, positions), [])
+    })
+})
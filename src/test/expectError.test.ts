@@ -0,0 +1,39 @@
+import * as assert from 'assert'
+import { describeExpectedError, matchesExpectedError, parseExpectedError } from '../core/expectError'
+import { Location } from '../core/splitIntoStatements'
+import { Position, Range } from '../core/types'
+
+const LOCATION: Location = new Location({ path: '/workspace/schema.sql', range: new Range(new Position(0, 0), new Position(0, 13)), startOffset: 0, length: 13 })
+
+suite('expectError', () => {
+    test('a SQLSTATE matches the code only', () => {
+        const expected = parseExpectedError(' 23505 ', LOCATION)
+        assert.strictEqual(expected.code, '23505')
+        assert.strictEqual(matchesExpectedError(expected, { code: '23505', message: 'duplicate key' }), true)
+        assert.strictEqual(matchesExpectedError(expected, { code: '23503', message: '23505' }), false)
+        assert.strictEqual(describeExpectedError(expected), 'error 23505')
+    })
+
+    test('a regex literal matches the message with its flags', () => {
+        const expected = parseExpectedError('/^duplicate KEY/i', LOCATION)
+        assert.strictEqual(matchesExpectedError(expected, { message: 'duplicate key value violates unique constraint' }), true)
+        assert.strictEqual(matchesExpectedError(expected, { message: 'a duplicate key' }), false)
+        assert.strictEqual(describeExpectedError(expected), 'an error matching /^duplicate KEY/i')
+    })
+
+    test('other text must be contained in the message, ignoring case', () => {
+        const expected = parseExpectedError('Division by zero (really)', LOCATION)
+        assert.strictEqual(matchesExpectedError(expected, { message: 'ERROR: division BY zero (really)!' }), true)
+        assert.strictEqual(matchesExpectedError(expected, { message: 'division by zero' }), false)
+    })
+
+    test('nothing matches any error', () => {
+        const expected = parseExpectedError('', LOCATION)
+        assert.strictEqual(matchesExpectedError(expected, {}), true)
+        assert.strictEqual(describeExpectedError(expected), 'an error')
+    })
+
+    test('an invalid regex is an error', () => {
+        assert.throws(() => parseExpectedError('/(/', LOCATION), /invalid @expect-error pattern/)
+    })
+})
@@ -0,0 +1,58 @@
+import * as assert from 'assert'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { expandGlob, isGlob, matchesGlob } from '../core/glob'
+
+suite('glob', () => {
+    let directory: string
+
+    suiteSetup(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'pglint-glob-'))
+        for (const file of ['a.sql', 'b.sql', 'c.txt', '.hidden.sql', 'sub/d.sql', 'sub/deep/e.sql', '.git/f.sql']) {
+            await fs.mkdir(path.dirname(path.join(directory, file)), { recursive: true })
+            await fs.writeFile(path.join(directory, file), '')
+        }
+    })
+
+    suiteTeardown(async () => {
+        await fs.rm(directory, { recursive: true, force: true })
+    })
+
+    const relative = (files: string[]) => files.map(file => path.relative(directory, file).split(path.sep).join('/'))
+
+    test('isGlob', () => {
+        assert.strictEqual(isGlob('schema/*.sql'), true)
+        assert.strictEqual(isGlob('schema/[ab].sql'), true)
+        assert.strictEqual(isGlob('schema/a.sql'), false)
+    })
+
+    test('expandGlob matches within a segment, skipping dot files', async () => {
+        assert.deepStrictEqual(relative(await expandGlob('*.sql', directory)), ['a.sql', 'b.sql'])
+        assert.deepStrictEqual(relative(await expandGlob('[!a].*', directory)), ['b.sql', 'c.txt'])
+        assert.deepStrictEqual(relative(await expandGlob('?.txt', directory)), ['c.txt'])
+        assert.deepStrictEqual(relative(await expandGlob('.*.sql', directory)), ['.hidden.sql'])
+    })
+
+    test('expandGlob matches any number of directories with **', async () => {
+        assert.deepStrictEqual(relative(await expandGlob('**/*.sql', directory)), ['a.sql', 'b.sql', 'sub/d.sql', 'sub/deep/e.sql'])
+        assert.deepStrictEqual(relative(await expandGlob('sub/**', directory)), ['sub/d.sql', 'sub/deep/e.sql'])
+    })
+
+    test('expandGlob returns a path without glob characters as is', async () => {
+        assert.deepStrictEqual(await expandGlob('missing.sql', directory), [path.join(directory, 'missing.sql')])
+    })
+
+    test('matchesGlob has the same rules', () => {
+        const file = (name: string) => path.join(directory, name)
+        assert.strictEqual(matchesGlob(file('sub/deep/e.sql'), '**/*.sql', directory), true)
+        assert.strictEqual(matchesGlob(file('sub/deep/e.sql'), 'sub/*.sql', directory), false)
+        assert.strictEqual(matchesGlob(file('.git/f.sql'), '**/*.sql', directory), false)
+        assert.strictEqual(matchesGlob(file('a.sql'), '[ab].sql', directory), true)
+    })
+
+    test('matchesGlob matches everything below a directory pattern', () => {
+        assert.strictEqual(matchesGlob(path.join(directory, 'sub/deep/e.sql'), 'sub/', directory), true)
+        assert.strictEqual(matchesGlob(path.join(directory, 'a.sql'), 'sub/', directory), false)
+    })
+})
@@ -0,0 +1,51 @@
+import * as assert from 'assert'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { IncludeGraph } from '../core/includeGraph'
+import { useTestHost } from './testHost'
+
+suite('IncludeGraph', () => {
+    let directory: string
+
+    /// Writes the files (by name) into a fresh directory and returns their include graph.
+    async function buildGraph(files: Record<string, string>): Promise<IncludeGraph> {
+        useTestHost()
+        const graph = new IncludeGraph()
+        for (const [file, text] of Object.entries(files)) {
+            await fs.writeFile(path.join(directory, file), text)
+        }
+        for (const [file, text] of Object.entries(files)) {
+            await graph.update(path.join(directory, file), text)
+        }
+        return graph
+    }
+
+    function roots(graph: IncludeGraph, files: string[]): string[] {
+        return files.filter(file => !graph.isIncluded(path.join(directory, file)))
+    }
+
+    setup(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'pglint-includes-'))
+    })
+
+    teardown(async () => {
+        await fs.rm(directory, { recursive: true, force: true })
+    })
+
+    test('a file included by another is not a root', async () => {
+        const graph = await buildGraph({ 'main.sql': '-- @include tables.sql\n', 'tables.sql': '-- @include types.sql\n', 'types.sql': 'SELECT 1;\n' })
+        assert.deepStrictEqual(roots(graph, ['main.sql', 'tables.sql', 'types.sql']), ['main.sql'])
+        assert.deepStrictEqual(graph.getRoots(path.join(directory, 'types.sql')), [path.join(directory, 'main.sql')])
+    })
+
+    test('the first file of an include cycle is the root, unless a file outside the cycle includes it', async () => {
+        const cycle = { 'a.sql': '-- @include b.sql\n', 'b.sql': '-- @include c.sql\n', 'c.sql': '-- @include a.sql\n' }
+        const graph = await buildGraph(cycle)
+        assert.deepStrictEqual(roots(graph, ['a.sql', 'b.sql', 'c.sql']), ['a.sql'])
+        assert.deepStrictEqual(graph.getRoots(path.join(directory, 'c.sql')), [path.join(directory, 'a.sql')])
+
+        const included = await buildGraph({ ...cycle, 'main.sql': '-- @include b.sql\n' })
+        assert.deepStrictEqual(roots(included, ['a.sql', 'b.sql', 'c.sql', 'main.sql']), ['main.sql'])
+    })
+})
@@ -0,0 +1,64 @@
+import * as assert from 'assert'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { MigrationLayout, MigrationOrder } from '../core/config'
+import { getMigrationContext } from '../core/migrations'
+import { useTestHost } from './testHost'
+
+suite('getMigrationContext', () => {
+    let directory: string
+
+    /// Writes the migrations (by name) into a fresh directory and returns the context of linting `name` in it.
+    async function lintMigration(files: Record<string, string>, name: string, order: MigrationOrder = 'lexical', layout: MigrationLayout = 'auto') {
+        for (const [file, text] of Object.entries(files)) {
+            await fs.writeFile(path.join(directory, file), text)
+        }
+        useTestHost({ migrationsDirectory: directory, migrationOrder: order, migrationLayout: layout })
+        return getMigrationContext(path.join(directory, name), files[name])
+    }
+
+    setup(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'pglint-migrations-'))
+    })
+
+    teardown(async () => {
+        await fs.rm(directory, { recursive: true, force: true })
+    })
+
+    test('applies the migrations before the file in lexical order', async () => {
+        const files = { '0002_users.sql': 'B', '0001_init.sql': 'A', '0003_orders.sql': 'C', 'notes.txt': 'x' }
+        const context = await lintMigration(files, '0003_orders.sql')
+        assert.deepStrictEqual(context?.previous.map(({ path: p, text }) => [path.basename(p), text]), [['0001_init.sql', 'A'], ['0002_users.sql', 'B']])
+        assert.strictEqual(context?.text, 'C')
+    })
+
+    test('orders timestamp prefixes numerically and skips files without one', async () => {
+        const files = { '9_a.sql': '', '10_b.sql': '', '100_c.sql': '', 'seed.sql': '' }
+        const context = await lintMigration(files, '100_c.sql', 'timestamp')
+        assert.deepStrictEqual(context?.previous.map(({ path: p }) => path.basename(p)), ['9_a.sql', '10_b.sql'])
+        assert.strictEqual(await lintMigration(files, 'seed.sql', 'timestamp'), null)
+    })
+
+    test('orders Flyway versions part by part, then repeatable migrations', async () => {
+        const files = { 'V1.10__c.sql': '', 'V1.9__b.sql': '', 'V1__a.sql': '', 'R__views.sql': '', 'V2__d.sql': '' }
+        const versioned = await lintMigration(files, 'V2__d.sql')
+        assert.deepStrictEqual(versioned?.previous.map(({ path: p }) => path.basename(p)), ['V1__a.sql', 'V1.9__b.sql', 'V1.10__c.sql'])
+        const repeatable = await lintMigration(files, 'R__views.sql')
+        assert.strictEqual(repeatable?.previous.length, 4)
+    })
+
+    test('blanks out everything but the dbmate up section, keeping offsets', async () => {
+        const text = '-- migrate:up\nCREATE TABLE t (id int);\n\n-- migrate:down\nDROP TABLE t;\n'
+        const context = await lintMigration({ '0001_t.sql': text }, '0001_t.sql')
+        assert.strictEqual(context?.text.length, text.length)
+        assert.strictEqual(context?.text, `${' '.repeat(13)}\nCREATE TABLE t (id int);\n\n${' '.repeat(15)}\n${' '.repeat(13)}\n`)
+    })
+
+    test('ignores files outside of the migrations directory', async () => {
+        useTestHost({ migrationsDirectory: directory })
+        assert.strictEqual(await getMigrationContext(path.join(os.tmpdir(), 'other.sql'), 'SELECT 1;'), null)
+        useTestHost({ migrationsDirectory: '' })
+        assert.strictEqual(await getMigrationContext(path.join(directory, '0001.sql'), 'SELECT 1;'), null)
+    })
+})
@@ -0,0 +1,28 @@
+import * as assert from 'assert'
+import { getNonTransactionalReason } from '../core/nonTransactional'
+
+const PG_11: number = 110000
+const PG_16: number = 160000
+
+suite('getNonTransactionalReason', () => {
+    test('finds the statements that cannot run inside a transaction block', () => {
+        assert.strictEqual(getNonTransactionalReason('CREATE DATABASE app;', PG_16), 'CREATE/DROP DATABASE')
+        assert.strictEqual(getNonTransactionalReason('create unique index concurrently i on t (a);', PG_16), 'CREATE/DROP INDEX CONCURRENTLY')
+        assert.strictEqual(getNonTransactionalReason('REINDEX (VERBOSE) TABLE CONCURRENTLY t;', PG_16), 'REINDEX CONCURRENTLY')
+        assert.strictEqual(getNonTransactionalReason('ALTER TABLE p\n    DETACH PARTITION p1 CONCURRENTLY;', PG_16), 'DETACH PARTITION CONCURRENTLY')
+        assert.strictEqual(getNonTransactionalReason('VACUUM ANALYZE t;', PG_16), 'VACUUM')
+        assert.strictEqual(getNonTransactionalReason('COMMIT;', PG_16), 'transaction control statement')
+    })
+
+    test('allows the statements that can', () => {
+        assert.strictEqual(getNonTransactionalReason('CREATE INDEX i ON t (a);', PG_16), null)
+        assert.strictEqual(getNonTransactionalReason('CREATE TABLE database (id int);', PG_16), null)
+        assert.strictEqual(getNonTransactionalReason("SELECT 'VACUUM';", PG_16), null)
+    })
+
+    test('ALTER TYPE ... ADD VALUE only before PostgreSQL 12', () => {
+        const sql = "ALTER TYPE mood ADD VALUE 'meh';"
+        assert.strictEqual(getNonTransactionalReason(sql, PG_11), 'ALTER TYPE ... ADD VALUE (before PostgreSQL 12)')
+        assert.strictEqual(getNonTransactionalReason(sql, PG_16), null)
+    })
+})
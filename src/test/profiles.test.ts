@@ -0,0 +1,51 @@
+import * as assert from 'assert'
+import { DEFAULT_LINT_CONFIG, LintConfig } from '../core/config'
+import { findProfileDirective, resolveProfile, withoutDatabaseUrls } from '../core/profiles'
+
+const CONFIG: LintConfig = {
+    ...DEFAULT_LINT_CONFIG,
+    databaseUrl: 'postgres://localhost/postgres',
+    profiles: {
+        staging: { databaseUrl: 'postgres://staging/postgres', errorMode: 'continue' },
+        local: { isolation: 'transaction' },
+    },
+}
+
+suite('profiles', () => {
+    test('findProfileDirective finds the first directive on a line of its own', () => {
+        const text = 'SELECT 1; -- @profile inline\n  --  @profile staging extra\n-- @profile local\n'
+        assert.deepStrictEqual(findProfileDirective(text), { name: 'staging', offset: 35, length: 16 })
+        assert.strictEqual(text.substr(35, 16), '@profile staging')
+        assert.deepStrictEqual(findProfileDirective('-- @profile:local'), { name: 'local', offset: 3, length: 14 })
+        assert.deepStrictEqual(findProfileDirective('-- @profile\n'), { name: '', offset: 3, length: 8 })
+        assert.strictEqual(findProfileDirective('-- @profiles x'), null)
+    })
+
+    test('findProfileDirective skips block comments, strings and dollar quotes', () => {
+        assert.strictEqual(findProfileDirective('/*\n-- @profile staging\n*/\n'), null)
+        assert.strictEqual(findProfileDirective('CREATE FUNCTION f() RETURNS int AS $$\n-- @profile staging\nSELECT 1 $$ LANGUAGE sql;\n'), null)
+        assert.strictEqual(findProfileDirective("SELECT '\n-- @profile staging\n';\n"), null)
+        const text = '/* -- @profile staging */\n-- @profile local\n'
+        assert.deepStrictEqual(findProfileDirective(text), { name: 'local', offset: 29, length: 14 })
+    })
+
+    test('resolveProfile applies the profile over the settings', () => {
+        const staging = resolveProfile(CONFIG, 'staging')
+        assert.strictEqual(staging.databaseUrl, 'postgres://staging/postgres')
+        assert.strictEqual(staging.errorMode, 'continue')
+        assert.strictEqual(staging.profile, 'staging')
+        const local = resolveProfile({ ...CONFIG, profile: 'local' })
+        assert.strictEqual(local.databaseUrl, CONFIG.databaseUrl)
+        assert.strictEqual(local.isolation, 'transaction')
+        assert.strictEqual(resolveProfile(CONFIG), CONFIG)
+    })
+
+    test('resolveProfile rejects unknown profiles', () => {
+        assert.throws(() => resolveProfile(CONFIG, 'production'), /unknown profile: production/)
+        assert.throws(() => resolveProfile(CONFIG, 'toString'), /unknown profile: toString/)
+    })
+
+    test('withoutDatabaseUrls keeps the other settings', () => {
+        assert.deepStrictEqual(withoutDatabaseUrls(CONFIG.profiles), { staging: { errorMode: 'continue' }, local: { isolation: 'transaction' } })
+    })
+})
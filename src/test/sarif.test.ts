@@ -0,0 +1,104 @@
+import * as assert from 'assert'
+import * as path from 'path'
+import { pathToFileURL } from 'url'
+import { CheckCode } from '../core/config'
+import { buildSarifLog, LintResults } from '../core/sarif'
+import { Diagnostic, DiagnosticRelatedInformation, DiagnosticSeverity, Position, Range } from '../core/types'
+
+const ROOT: string = path.resolve('/workspace')
+const SCHEMA: string = path.join(ROOT, 'db', 'my schema.sql')
+const OUTSIDE: string = path.resolve('/elsewhere/shared.sql')
+
+function range(line: number, start: number, end: number): Range {
+    return new Range(new Position(line, start), new Position(line, end))
+}
+
+function diagnostic(at: Range, message: string, severity: DiagnosticSeverity, code?: string): Diagnostic {
+    const result = new Diagnostic(at, message, severity)
+    result.code = code
+    return result
+}
+
+/// The SARIF log as JSON, without the properties left undefined.
+function build(results: LintResults): any {
+    return JSON.parse(JSON.stringify(buildSarifLog(results, { rootDir: ROOT, version: '1.2.3' })))
+}
+
+suite('sarif', () => {
+    test('writes one result per finding with its rule, level and locations', () => {
+        const failure = diagnostic(range(2, 4, 9), 'relation "items" does not exist', DiagnosticSeverity.Error, '42P01')
+        failure.details = {
+            hint: 'Create it first.',
+            statement: new DiagnosticRelatedInformation(SCHEMA, range(2, 0, 20), 'In this statement'),
+            unreachable: [new DiagnosticRelatedInformation(OUTSIDE, range(0, 0, 9), 'Not run')],
+        }
+        const echo = diagnostic(range(2, 0, 20), failure.message, DiagnosticSeverity.Error, '42P01')
+        echo.details = { echo: true }
+        const log = build(new Map([
+            [SCHEMA, [failure, echo, diagnostic(range(0, 0, 8), '1 row', DiagnosticSeverity.Hint, CheckCode.queryStats)]],
+            [OUTSIDE, [diagnostic(range(0, 0, 9), 'Not run', DiagnosticSeverity.Information, CheckCode.unreachable)]],
+        ]))
+
+        assert.strictEqual(log.version, '2.1.0')
+        const [run] = log.runs
+        assert.deepStrictEqual(run.tool.driver.rules.map((rule: any) => [rule.id, rule.shortDescription.text]), [
+            ['42P01', 'PostgreSQL error 42P01 (Syntax Error or Access Rule Violation)'],
+            [CheckCode.unreachable, 'Statements not run after a failure'],
+        ])
+        assert.strictEqual(run.tool.driver.version, '1.2.3')
+        assert.deepStrictEqual(run.originalUriBaseIds, { SRCROOT: { uri: pathToFileURL(ROOT + path.sep).href } })
+        assert.deepStrictEqual(run.results, [
+            {
+                ruleId: '42P01',
+                level: 'error',
+                message: { text: 'relation "items" does not exist' },
+                locations: [{
+                    physicalLocation: {
+                        artifactLocation: { uri: 'db/my%20schema.sql', uriBaseId: 'SRCROOT' },
+                        region: { startLine: 3, startColumn: 5, endLine: 3, endColumn: 10 },
+                    },
+                }],
+                relatedLocations: [
+                    {
+                        id: 0,
+                        message: { text: 'In this statement' },
+                        physicalLocation: {
+                            artifactLocation: { uri: 'db/my%20schema.sql', uriBaseId: 'SRCROOT' },
+                            region: { startLine: 3, startColumn: 1, endLine: 3, endColumn: 21 },
+                        },
+                        properties: { kind: 'statement' },
+                    },
+                    {
+                        id: 1,
+                        message: { text: 'Not run' },
+                        physicalLocation: {
+                            artifactLocation: { uri: pathToFileURL(OUTSIDE).href },
+                            region: { startLine: 1, startColumn: 1, endLine: 1, endColumn: 10 },
+                        },
+                        properties: { kind: 'unreachable' },
+                    },
+                ],
+                properties: { hint: 'Create it first.', unreachable: true },
+            },
+            {
+                ruleId: CheckCode.unreachable,
+                level: 'note',
+                message: { text: 'Not run' },
+                locations: [{
+                    physicalLocation: {
+                        artifactLocation: { uri: pathToFileURL(OUTSIDE).href },
+                        region: { startLine: 1, startColumn: 1, endLine: 1, endColumn: 10 },
+                    },
+                }],
+                properties: {},
+            },
+        ])
+    })
+
+    test('writes an empty run without results', () => {
+        const [run] = build(new Map()).runs
+        assert.deepStrictEqual(run.results, [])
+        assert.deepStrictEqual(run.tool.driver.rules, [])
+        assert.strictEqual(run.columnKind, 'utf16CodeUnits')
+    })
+})
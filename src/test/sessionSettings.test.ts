@@ -0,0 +1,33 @@
+import * as assert from 'assert'
+import { parseRoleDirective, parseSearchPathDirective, parseSetDirective } from '../core/sessionSettings'
+
+suite('sessionSettings', () => {
+    test('@role folds unquoted names and keeps quoted ones', () => {
+        assert.deepStrictEqual(parseRoleDirective(' App_User '), { directive: '@role App_User', name: 'role', value: 'app_user' })
+        assert.deepStrictEqual(parseRoleDirective('"Admin ""1"""'), { directive: '@role "Admin ""1"""', name: 'role', value: 'Admin "1"' })
+        assert.throws(() => parseRoleDirective(''), /requires a role name/)
+        assert.throws(() => parseRoleDirective('app user'), /Role name must/)
+    })
+
+    test('@search_path keeps the list for the server to parse', () => {
+        assert.deepStrictEqual(parseSearchPathDirective('app,"My, Schema" , $user, public'), {
+            directive: '@search_path app,"My, Schema" , $user, public',
+            name: 'search_path',
+            value: 'app, "My, Schema", $user, public',
+        })
+        assert.throws(() => parseSearchPathDirective(' '), /requires at least one schema/)
+        assert.throws(() => parseSearchPathDirective('app; DROP'), /Schema name must/)
+    })
+
+    test('@set takes name = value or name TO value', () => {
+        assert.deepStrictEqual(parseSetDirective('statement_timeout = 5s'), { directive: '@set statement_timeout = 5s', name: 'statement_timeout', value: '5s' })
+        assert.deepStrictEqual(parseSetDirective('Plpgsql.Extra_Warnings TO \'all\''), { directive: '@set Plpgsql.Extra_Warnings TO \'all\'', name: 'plpgsql.extra_warnings', value: 'all' })
+        assert.deepStrictEqual(parseSetDirective("application_name = 'it''s'"), { directive: "@set application_name = 'it''s'", name: 'application_name', value: "it's" })
+    })
+
+    test('@set rejects what SET would', () => {
+        assert.throws(() => parseSetDirective('work_mem'), /must be given as name = value/)
+        assert.throws(() => parseSetDirective('work_mem ='), /must be given as name = value/)
+        assert.throws(() => parseSetDirective('1abc = 2'), /invalid configuration parameter name/)
+    })
+})
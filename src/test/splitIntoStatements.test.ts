@@ -0,0 +1,149 @@
+import * as assert from 'assert'
+import { PositionCache, splitIntoStatements, Statement } from '../core/splitIntoStatements'
+import { useTestHost } from './testHost'
+
+const FILE: string = '/workspace/schema.sql'
+
+/// What a test expects of a statement: its SQL (or meta-command), and where it is in the file
+/// as `[startOffset, length]` and `[startLine, startCharacter, endLine, endCharacter]`.
+interface ExpectedStatement {
+    sql?: string
+    metaCommand?: string
+    offsets: [number, number]
+    range: [number, number, number, number]
+}
+
+async function split(text: string): Promise<Statement[]> {
+    return splitIntoStatements(FILE, text, new PositionCache())
+}
+
+function summarize(statement: Statement): ExpectedStatement {
+    const { location: { startOffset, length, range: { start, end } }, sql, metaCommand } = statement
+    return {
+        ...(sql !== undefined ? { sql } : {}),
+        ...(metaCommand !== undefined ? { metaCommand } : {}),
+        offsets: [startOffset, length],
+        range: [start.line, start.character, end.line, end.character],
+    }
+}
+
+/// Each case is a file and the statements it splits into, in order.
+const CASES: { name: string, text: string, statements: ExpectedStatement[] }[] = [
+    {
+        name: 'nested block comments',
+        text: 'SELECT 1 /* outer /* inner; */ still; */ ;\nSELECT 2;',
+        statements: [
+            { sql: 'SELECT 1 /* outer /* inner; */ still; */ ;', offsets: [0, 41], range: [0, 0, 0, 41] },
+            { sql: 'SELECT 2;', offsets: [43, 8], range: [1, 0, 1, 8] },
+        ],
+    },
+    {
+        name: 'nested block comments between statements',
+        text: '/* a /* b; */ c; */\nSELECT 1;',
+        statements: [
+            { sql: 'SELECT 1;', offsets: [20, 8], range: [1, 0, 1, 8] },
+        ],
+    },
+    {
+        name: 'backslash escapes in E strings',
+        text: "SELECT E'it\\'s; here';\nSELECT 'a''b;';",
+        statements: [
+            { sql: "SELECT E'it\\'s; here';", offsets: [0, 21], range: [0, 0, 0, 21] },
+            { sql: "SELECT 'a''b;';", offsets: [23, 14], range: [1, 0, 1, 14] },
+        ],
+    },
+    {
+        name: 'backslashes in standard strings',
+        text: "SELECT 'C:\\';\nSELECT 2;",
+        statements: [
+            { sql: "SELECT 'C:\\';", offsets: [0, 12], range: [0, 0, 0, 12] },
+            { sql: 'SELECT 2;', offsets: [14, 8], range: [1, 0, 1, 8] },
+        ],
+    },
+    {
+        name: 'backticks are not quotes',
+        text: 'SELECT 1 AS `a;\nSELECT 2`;',
+        statements: [
+            { sql: 'SELECT 1 AS `a;', offsets: [0, 14], range: [0, 0, 0, 14] },
+            { sql: 'SELECT 2`;', offsets: [16, 9], range: [1, 0, 1, 9] },
+        ],
+    },
+    {
+        name: 'BEGIN ATOMIC bodies with CASE ... END',
+        text: "CREATE FUNCTION f(x int) RETURNS text\nBEGIN ATOMIC\n  SELECT CASE WHEN x > 0 THEN 'p' ELSE 'n' END;\n  SELECT 'done';\nEND;\nSELECT 3;",
+        statements: [
+            {
+                sql: "CREATE FUNCTION f(x int) RETURNS text\nBEGIN ATOMIC\n  SELECT CASE WHEN x > 0 THEN 'p' ELSE 'n' END;\n  SELECT 'done';\nEND;",
+                offsets: [0, 119],
+                range: [0, 0, 4, 3],
+            },
+            { sql: 'SELECT 3;', offsets: [121, 8], range: [5, 0, 5, 8] },
+        ],
+    },
+    {
+        name: 'BEGIN outside of a function body',
+        text: 'BEGIN;\nSELECT CASE WHEN true THEN 1 END;\nEND;',
+        statements: [
+            { sql: 'BEGIN;', offsets: [0, 5], range: [0, 0, 0, 5] },
+            { sql: 'SELECT CASE WHEN true THEN 1 END;', offsets: [7, 32], range: [1, 0, 1, 32] },
+            { sql: 'END;', offsets: [41, 3], range: [2, 0, 2, 3] },
+        ],
+    },
+    {
+        name: 'dollar quotes with tags',
+        text: 'CREATE FUNCTION g() RETURNS int LANGUAGE plpgsql AS $body$\nBEGIN\n  RETURN $$;$$::text::int;\nEND\n$body$;\nSELECT $a$ ; $a$;',
+        statements: [
+            {
+                sql: 'CREATE FUNCTION g() RETURNS int LANGUAGE plpgsql AS $body$\nBEGIN\n  RETURN $$;$$::text::int;\nEND\n$body$;',
+                offsets: [0, 102],
+                range: [0, 0, 4, 6],
+            },
+            { sql: 'SELECT $a$ ; $a$;', offsets: [104, 16], range: [5, 0, 5, 16] },
+        ],
+    },
+    {
+        name: 'dollar signs in identifiers and parameters',
+        text: 'SELECT a$b$ FROM t WHERE x = $1;\nSELECT 2;',
+        statements: [
+            { sql: 'SELECT a$b$ FROM t WHERE x = $1;', offsets: [0, 31], range: [0, 0, 0, 31] },
+            { sql: 'SELECT 2;', offsets: [33, 8], range: [1, 0, 1, 8] },
+        ],
+    },
+    {
+        name: 'psql meta-commands and variables',
+        text: '\\set n 5\nSELECT :n, :\'tbl\', :"tbl";\n\\echo hi\nSELECT 2;',
+        statements: [
+            { sql: 'SELECT 5, \'items\', "items";', offsets: [9, 25], range: [1, 0, 1, 25] },
+            { metaCommand: '\\echo hi', offsets: [36, 8], range: [2, 0, 2, 8] },
+            { sql: 'SELECT 2;', offsets: [45, 8], range: [3, 0, 3, 8] },
+        ],
+    },
+    {
+        name: 'casts are not variables',
+        text: "SELECT '1'::int;\nSELECT 2;",
+        statements: [
+            { sql: "SELECT '1'::int;", offsets: [0, 15], range: [0, 0, 0, 15] },
+            { sql: 'SELECT 2;', offsets: [17, 8], range: [1, 0, 1, 8] },
+        ],
+    },
+]
+
+suite('splitIntoStatements', () => {
+    suiteSetup(() => useTestHost({ variables: { tbl: 'items' } }))
+
+    for (const { name, text, statements } of CASES) {
+        test(name, async () => {
+            assert.deepStrictEqual((await split(text)).map(summarize), statements)
+        })
+    }
+
+    test('maps offsets in interpolated SQL back to the file', async () => {
+        const [statement] = await split('SELECT :\'tbl\' || x;')
+        assert.strictEqual(statement.sql, "SELECT 'items' || x;")
+        // `x` is after the 7-character value, which replaced a 6-character reference
+        assert.strictEqual(statement.sourceOffset(18), 17)
+        // inside the value maps to the start (or end) of the reference
+        assert.strictEqual(statement.sourceOffset(9), 7)
+        assert.strictEqual(statement.sourceOffset(9, true), 13)
+    })
+})
@@ -0,0 +1,11 @@
+import { DEFAULT_LINT_CONFIG, LintConfig, setHost } from '../core'
+
+/// Sets up the pglint core for tests that don't need a database: the default configuration with `overrides`
+/// (and no database URL), and log lines and messages are dropped.
+export function useTestHost(overrides: Partial<LintConfig> = {}) {
+    setHost({
+        getConfig: () => ({ ...DEFAULT_LINT_CONFIG, databaseUrl: '', ...overrides }),
+        log: { appendLine: () => { } },
+        notify: () => { },
+    })
+}
@@ -0,0 +1,91 @@
+import * as vscode from 'vscode'
+import * as core from './core'
+
+/// Converts core types, keyed by file system path, to their `vscode` counterparts.
+/// `rootUri` is used for `rootPath`, so that unsaved and untitled documents keep their own URI.
+export class DiagnosticConverter {
+    private rootPath: string
+    private rootUri: vscode.Uri
+
+    constructor({ rootPath, rootUri }: { rootPath: string, rootUri: vscode.Uri }) {
+        this.rootPath = rootPath
+        this.rootUri = rootUri
+    }
+
+    public uri(path: string): vscode.Uri {
+        return path === this.rootPath ? this.rootUri : vscode.Uri.file(path)
+    }
+
+    public range({ start, end }: core.Range): vscode.Range {
+        return new vscode.Range(start.line, start.character, end.line, end.character)
+    }
+
+    public diagnostic(diagnostic: core.Diagnostic): vscode.Diagnostic {
+        const converted = new vscode.Diagnostic(this.range(diagnostic.range), diagnostic.message, diagnostic.severity as number)
+        converted.source = diagnostic.source
+        converted.code = diagnostic.code
+        converted.tags = diagnostic.tags as number[] | undefined
+        converted.relatedInformation = diagnostic.relatedInformation?.map(({ path, range, message }) =>
+            new vscode.DiagnosticRelatedInformation(new vscode.Location(this.uri(path), this.range(range)), message))
+        return converted
+    }
+
+    /// Publishes all diagnostics in `buffer` as those of the root document.
+    public flush(buffer: core.DiagnosticBuffer, publisher: DiagnosticPublisher) {
+        publisher.publish(this.rootUri, [...buffer.getAll()].map(([path, diagnostics]) => [this.uri(path), diagnostics.map(d => this.diagnostic(d))]))
+    }
+}
+
+/// Publishes the diagnostics of the lint cycles of several root documents to one collection.
+/// A file included by more than one root gets the diagnostics of all of them (once, if they report the same),
+/// and each root's share is replaced when it is linted again.
+export class DiagnosticPublisher {
+    private collection: vscode.DiagnosticCollection
+    /// The diagnostics of each file by the root documents that reported them, keyed by URI.
+    private files: Map<string, { uri: vscode.Uri, roots: Map<string, vscode.Diagnostic[]> }> = new Map()
+
+    constructor(collection: vscode.DiagnosticCollection) {
+        this.collection = collection
+    }
+
+    /// Replaces the diagnostics of the last lint cycle of `rootUri` with `diagnostics`, by file.
+    public publish(rootUri: vscode.Uri, diagnostics: [vscode.Uri, vscode.Diagnostic[]][]) {
+        const root = rootUri.toString()
+        const changed: Map<string, vscode.Uri> = new Map()
+        for (const [key, { uri, roots }] of this.files) {
+            if (roots.delete(root)) {
+                changed.set(key, uri)
+            }
+        }
+        for (const [uri, fileDiagnostics] of diagnostics) {
+            const key = uri.toString()
+            let file = this.files.get(key)
+            if (!file) {
+                file = { uri, roots: new Map() }
+                this.files.set(key, file)
+            }
+            file.roots.set(root, fileDiagnostics)
+            changed.set(key, uri)
+        }
+        for (const [key, uri] of changed) {
+            const { roots } = this.files.get(key)!
+            if (roots.size === 0) {
+                this.files.delete(key)
+            }
+            this.collection.set(uri, merge([...roots.values()]))
+        }
+    }
+}
+
+/// Concatenates the diagnostics of several roots, leaving out those that an earlier root reported the same way.
+function merge(diagnostics: vscode.Diagnostic[][]): vscode.Diagnostic[] {
+    const seen: Set<string> = new Set()
+    return diagnostics.flat().filter(({ range: { start, end }, severity, message }) => {
+        const key = `${start.line}:${start.character}-${end.line}:${end.character}\0${severity}\0${message}`
+        if (seen.has(key)) {
+            return false
+        }
+        seen.add(key)
+        return true
+    })
+}
@@ -0,0 +1,66 @@
+import * as vscode from 'vscode'
+import { getChannel, getConfigManager } from './config'
+import { IncludeGraph } from './core'
+
+/// Combines glob patterns into one, as `findFiles` takes a single pattern.
+function combineGlobs(globs: string[]): string | null {
+    if (globs.length === 0) {
+        return null
+    }
+    return globs.length === 1 ? globs[0] : `{${globs.join(',')}}`
+}
+
+/// The include graph of the workspace files matching `pglint.workspaceInclude` (and not `pglint.workspaceExclude`),
+/// built by `scan` and kept up to date as documents are saved and files deleted.
+export class WorkspaceIncludes implements vscode.Disposable {
+    private graph: IncludeGraph = new IncludeGraph()
+    private subscription: vscode.Disposable
+
+    constructor() {
+        this.subscription = vscode.workspace.onDidDeleteFiles(({ files }) => {
+            for (const uri of files) {
+                this.graph.remove(uri.fsPath)
+            }
+        })
+    }
+
+    /// Finds the workspace files and reads their includes. Returns the files found, sorted by path.
+    public async scan(token?: vscode.CancellationToken): Promise<vscode.Uri[]> {
+        const { workspaceInclude, workspaceExclude } = getConfigManager().get()
+        const include = combineGlobs(workspaceInclude)
+        if (!include) {
+            return []
+        }
+        const uris = await vscode.workspace.findFiles(include, combineGlobs(workspaceExclude), undefined, token)
+        for (const uri of uris) {
+            if (token?.isCancellationRequested) {
+                return []
+            }
+            try {
+                await this.graph.update(uri.fsPath, new TextDecoder().decode(await vscode.workspace.fs.readFile(uri)))
+            } catch (error: any) {
+                getChannel().appendLine(`Failed to read includes of ${uri.fsPath}: ${error.message}`)
+            }
+        }
+        return uris.sort((a, b) => a.fsPath.localeCompare(b.fsPath))
+    }
+
+    public async update(document: vscode.TextDocument) {
+        await this.graph.update(document.uri.fsPath, document.getText())
+    }
+
+    /// Whether another workspace file `@include`s `uri`, so that it is linted as part of it.
+    public isIncluded(uri: vscode.Uri): boolean {
+        return this.graph.isIncluded(uri.fsPath)
+    }
+
+    /// The root documents that `@include` `document`, directly or through nested includes.
+    public async getRootDocuments(document: vscode.TextDocument): Promise<vscode.TextDocument[]> {
+        const roots = this.graph.getRoots(document.uri.fsPath)
+        return Promise.all(roots.map(root => vscode.workspace.openTextDocument(vscode.Uri.file(root))))
+    }
+
+    public dispose() {
+        this.subscription.dispose()
+    }
+}